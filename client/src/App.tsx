@@ -1,18 +1,45 @@
 import { Switch, Route } from "wouter";
+import { Loader2 } from "lucide-react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/lib/theme-provider";
+import { AuthProvider, useAuth } from "@/lib/auth-context";
 import { InstanceProvider } from "@/lib/instance-context";
 import Dashboard from "@/pages/dashboard";
+import Login from "@/pages/login";
+import AcceptInvite from "@/pages/accept-invite";
 import NotFound from "@/pages/not-found";
 
 function Router() {
+  const { user, setupRequired, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route component={NotFound} />
+      <Route path="/accept-invite" component={AcceptInvite} />
+      {!user ? (
+        <Route>
+          <Login setup={setupRequired} />
+        </Route>
+      ) : (
+        <Route>
+          <InstanceProvider>
+            <Switch>
+              <Route path="/" component={Dashboard} />
+              <Route component={NotFound} />
+            </Switch>
+          </InstanceProvider>
+        </Route>
+      )}
     </Switch>
   );
 }
@@ -21,12 +48,12 @@ function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="n8n-dashboard-theme">
       <QueryClientProvider client={queryClient}>
-        <InstanceProvider>
+        <AuthProvider>
           <TooltipProvider>
             <Toaster />
             <Router />
           </TooltipProvider>
-        </InstanceProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  apiTokenScopes,
+  apiTokenScopeRoles,
+  type ApiTokenInfo,
+  type ApiTokenScope,
+  type CreatedApiToken,
+} from "@shared/schema";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  read: "Read-only",
+  sync: "Sync trigger",
+  admin: "Admin",
+};
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+interface ApiTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** The user's personal API tokens, for scripts calling the /api routes. */
+export function ApiTokensDialog({ open, onOpenChange }: ApiTokensDialogProps) {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/tokens"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setCreated(null);
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<CreatedApiToken> => {
+      const res = await apiRequest("POST", "/api/tokens", {
+        name,
+        scope,
+        expiresInDays: Number(expiresInDays),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setCreated(data);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+  });
+
+  const handleRevoke = (token: ApiTokenInfo) => {
+    if (confirm(`Revoke "${token.name}"? Scripts using it stop working right away.`)) {
+      revokeMutation.mutate(token.id);
+    }
+  };
+
+  const error = createMutation.error ?? revokeMutation.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>API tokens</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground">
+          Send a token as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span> to any /api
+          route. It acts as you, limited to its scope.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Name, e.g. nightly report"
+            className="h-9"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select value={scope} onValueChange={(value) => setScope(value as ApiTokenScope)}>
+            <SelectTrigger className="h-9 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {apiTokenScopes.filter((option) => can(apiTokenScopeRoles[option])).map((option) => (
+                <SelectItem key={option} value={option}>{scopeLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger className="h-9 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            className="h-9"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Create
+          </Button>
+        </div>
+
+        {created && (
+          <div className="rounded-md border border-border bg-muted/50 p-2 text-xs">
+            <p className="text-muted-foreground mb-1">
+              Copy this token now — it won't be shown again:
+            </p>
+            <p className="font-mono break-all select-all">{created.token}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">{errorMessage(error, "Request failed")}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <KeyRound className="h-8 w-8 mb-2" />
+            <p className="text-sm">No API tokens yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((token) => {
+              const expired = new Date(token.expiresAt) < new Date();
+              return (
+                <div key={token.id} className="rounded-lg border border-border bg-card p-3 flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <Badge variant="secondary">{scopeLabels[token.scope]}</Badge>
+                      {expired && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono mt-1">{token.tokenPrefix}…</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Created {format(new Date(token.createdAt), "MMM d, yyyy")}
+                      {" · "}
+                      {expired ? "Expired" : "Expires"} {formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                  <button
+                    className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors text-rose-500"
+                    onClick={() => handleRevoke(token)}
+                    disabled={revokeMutation.isPending}
+                    title="Revoke"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Download, History, Loader2 } from "lucide-react";
+import {
+  auditActions,
+  MAX_AUDIT_EVENTS_PAGE,
+  type AuditAction,
+  type AuditEventInfo,
+  type N8nInstancePublic,
+  type UserWithGrants,
+} from "@shared/schema";
+import { errorMessage } from "@/lib/queryClient";
+
+const actionLabels: Record<AuditAction, string> = {
+  "instance.create": "Created instance",
+  "instance.update": "Changed instance",
+  "instance.delete": "Deleted instance",
+  "instance.test": "Tested settings",
+  "instance.test_connection": "Tested connection",
+  "instance.sync": "Triggered sync",
+  "instance.trust_host_key": "Trusted host key",
+  "instance.import_known_hosts": "Imported known_hosts",
+  "instance.ingest_token": "Regenerated ingest token",
+  "instance.retention_rules": "Changed retention rules",
+};
+
+// Value of the "any" option; Radix Select doesn't allow an empty value
+const ALL = "all";
+const PAGE_SIZE = 100;
+
+const PERIODS: Record<string, { label: string; hours: number | null }> = {
+  "24h": { label: "Last 24 hours", hours: 24 },
+  "7d": { label: "Last 7 days", hours: 24 * 7 },
+  "30d": { label: "Last 30 days", hours: 24 * 30 },
+  [ALL]: { label: "All time", hours: null },
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+interface AuditLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Admin screen: who changed instance settings or ran tests and syncs, with
+ *  the settings diff of each change. */
+export function AuditLogDialog({ open, onOpenChange }: AuditLogDialogProps) {
+  const [instanceId, setInstanceId] = useState(ALL);
+  const [actorUserId, setActorUserId] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [period, setPeriod] = useState("7d");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLimit(PAGE_SIZE);
+  }, [instanceId, actorUserId, action, period]);
+
+  const { data: instances = [] } = useQuery<N8nInstancePublic[]>({
+    queryKey: ["/api/instances"],
+    enabled: open,
+  });
+
+  const { data: users = [] } = useQuery<UserWithGrants[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  // Rounded to the minute so the query key stays put between renders
+  const hours = PERIODS[period].hours;
+  const startDate = hours === null
+    ? null
+    : new Date(Math.floor((Date.now() - hours * 3600_000) / 60_000) * 60_000).toISOString();
+
+  const filters = new URLSearchParams();
+  if (instanceId !== ALL) filters.set("instanceId", instanceId);
+  if (actorUserId !== ALL) filters.set("actorUserId", actorUserId);
+  if (action !== ALL) filters.set("action", action);
+  if (startDate) filters.set("startDate", startDate);
+
+  const { data: events = [], isLoading, isFetching, error } = useQuery<AuditEventInfo[]>({
+    queryKey: [`/api/audit-events?${filters.toString()}&limit=${limit}`],
+    enabled: open,
+    placeholderData: (previous) => previous,
+  });
+
+  const exportUrl = (format: "csv" | "json") => `/api/audit-events/export?${filters.toString()}&format=${format}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Audit log</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={instanceId} onValueChange={setInstanceId}>
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All instances</SelectItem>
+              {instances.map((instance) => (
+                <SelectItem key={instance.id} value={instance.id}>{instance.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actorUserId} onValueChange={setActorUserId}>
+            <SelectTrigger className="h-9 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {auditActions.map((option) => (
+                <SelectItem key={option} value={option}>{actionLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="h-9 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERIODS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1 ml-auto">
+            <Button asChild size="sm" variant="outline" className="h-9">
+              <a href={exportUrl("csv")} download>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </a>
+            </Button>
+            <Button asChild size="sm" variant="outline" className="h-9">
+              <a href={exportUrl("json")} download>
+                <Download className="h-4 w-4 mr-1" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">{errorMessage(error, "Failed to load the audit log")}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <History className="h-8 w-8 mb-2" />
+            <p className="text-sm">No matching events</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {events.map((event) => {
+              const isExpanded = expanded === event.id;
+              return (
+                <div key={event.id} className="rounded-lg border border-border bg-card p-3">
+                  <div className="flex items-start gap-2">
+                    <button
+                      className="mt-0.5 text-muted-foreground disabled:opacity-0"
+                      onClick={() => setExpanded(isExpanded ? null : event.id)}
+                      disabled={event.changes.length === 0}
+                      title="Show changes"
+                    >
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </button>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{actionLabels[event.action] ?? event.action}</span>
+                        {event.instanceName && <span className="text-sm truncate">{event.instanceName}</span>}
+                        {!event.success && <Badge variant="destructive">Failed</Badge>}
+                        {event.changes.length > 0 && (
+                          <Badge variant="secondary">
+                            {event.changes.length} setting{event.changes.length === 1 ? "" : "s"}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss")}
+                        {" · "}
+                        {event.actorUsername}
+                        {event.apiTokenId && " (API token)"}
+                      </p>
+                      {event.detail && (
+                        <p className="text-xs text-muted-foreground mt-1 break-words">{event.detail}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <table className="w-full mt-2 text-xs table-fixed">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="font-normal w-1/4 pb-1">Setting</th>
+                          <th className="font-normal pb-1">Before</th>
+                          <th className="font-normal pb-1">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {event.changes.map((change) => (
+                          <tr key={change.field} className="border-t border-border align-top">
+                            <td className="py-1 pr-2 break-words">{change.field}</td>
+                            <td className="py-1 pr-2 break-all">{formatValue(change.before)}</td>
+                            <td className="py-1 break-all">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+            {events.length >= limit && limit < MAX_AUDIT_EVENTS_PAGE && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setLimit(Math.min(limit + PAGE_SIZE, MAX_AUDIT_EVENTS_PAGE))}
+                disabled={isFetching}
+              >
+                {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Show more
+              </Button>
+            )}
+            {events.length >= MAX_AUDIT_EVENTS_PAGE && (
+              <p className="text-xs text-muted-foreground text-center">
+                Showing the newest {MAX_AUDIT_EVENTS_PAGE}; export for the full list.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
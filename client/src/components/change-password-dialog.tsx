@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { MIN_PASSWORD_LENGTH } from "@shared/schema";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ChangePasswordDialog({ open, onOpenChange }: ChangePasswordDialogProps) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/password", { currentPassword, newPassword });
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmation("");
+    mutation.reset();
+  }, [open]);
+
+  const mismatch = confirmation.length > 0 && confirmation !== newPassword;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+        </DialogHeader>
+
+        {mutation.isSuccess ? (
+          <p className="text-sm text-muted-foreground">
+            Password changed. Your other sessions have been signed out.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters.</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="confirm-password">Repeat new password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {mismatch && <p className="text-xs text-rose-700 dark:text-rose-400">Passwords don't match.</p>}
+            </div>
+          </div>
+        )}
+
+        {mutation.error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">
+              {errorMessage(mutation.error, "Failed to change password")}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {mutation.isSuccess ? "Close" : "Cancel"}
+          </Button>
+          {!mutation.isSuccess && (
+            <Button
+              onClick={() => mutation.mutate()}
+              disabled={!currentPassword || !newPassword || newPassword !== confirmation || mutation.isPending}
+            >
+              {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Change password
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -380,6 +380,11 @@ function ExecutionDetailModal({
                   >
                     {execution.status}
                   </Badge>
+                  {execution.raw_status && execution.raw_status !== execution.status && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      raw: <span className="font-mono">{execution.raw_status}</span>
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="bg-muted/50 rounded-md p-3">
@@ -421,11 +426,28 @@ function ExecutionDetailModal({
               </div>
             )}
 
+            {/* Unmapped columns of a forked hooks table */}
+            {detail?.extra && Object.keys(detail.extra).length > 0 && (
+              <div>
+                <span className="text-xs font-medium text-muted-foreground">Extra Columns</span>
+                <div className="mt-1 rounded-md border border-border bg-muted/30 p-3">
+                  <JsonTree data={detail.extra} highlight={searchTerm} defaultExpanded={true} />
+                </div>
+              </div>
+            )}
+
             {/* Node execution detail section */}
             <div>
-              <span className="text-xs font-medium text-muted-foreground">
-                Node Execution {nodeResults.length > 0 ? `(${nodeResults.length} nodes)` : ""}
-              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-muted-foreground">
+                  Node Execution {nodeResults.length > 0 ? `(${nodeResults.length} nodes)` : ""}
+                </span>
+                {detail?.payload_source && detail.payload_source !== "local" && (
+                  <Badge variant="outline" className="text-[10px] font-normal">
+                    {detail.payload_source === "remote-cache" ? "Fetched from remote (cached)" : "Fetched from remote"}
+                  </Badge>
+                )}
+              </div>
 
               {detailLoading && (
                 <div className="mt-2 flex items-center gap-2 rounded-md border border-border bg-muted/30 p-4">
@@ -444,7 +466,13 @@ function ExecutionDetailModal({
 
               {!detailLoading && !detailError && detail && nodeResults.length === 0 && (
                 <div className="mt-2 rounded-md border border-border bg-muted/30 p-3">
-                  <p className="text-sm text-muted-foreground">No node execution data available</p>
+                  <p className="text-sm text-muted-foreground">
+                    {detail.payload_error
+                      ? `Could not fetch execution data from the remote: ${detail.payload_error}`
+                      : detail.payload_pruned_at
+                        ? `Execution data was removed by the retention policy on ${format(new Date(detail.payload_pruned_at), "MMM d, yyyy")}`
+                        : "No node execution data available"}
+                  </p>
                   {execData && (
                     <div className="mt-2">
                       <JsonTree data={execData} highlight={searchTerm} defaultExpanded={true} />
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -8,10 +9,65 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Pencil, Trash2, Plug, Loader2, Server } from "lucide-react";
-import type { N8nInstancePublic } from "@shared/schema";
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  Plug,
+  Loader2,
+  Server,
+  KeyRound,
+  Archive,
+  FileKey,
+  Unplug,
+  RefreshCw,
+} from "lucide-react";
+import type {
+  ConnectionTestResult,
+  HostKeyPrompt,
+  N8nInstancePublic,
+  SourceType,
+  TunnelInfo,
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
 import { InstanceFormDialog } from "./instance-form-dialog";
+import { RetentionSettingsDialog } from "./retention-settings-dialog";
+import { KnownHostsImportDialog } from "./known-hosts-import-dialog";
+
+function isSshInstance(inst: N8nInstancePublic) {
+  return (inst.sourceType === "hooks" || inst.sourceType === "native") && inst.connectionType === "ssh";
+}
+
+function unpinnedHostCount(inst: N8nInstancePublic) {
+  const hops = [...inst.sshJumpHosts.map((hop) => hop.hostKeys ?? []), inst.sshHostKeys];
+  return hops.filter((keys) => keys.length === 0).length;
+}
+
+function usesTunnel(inst: N8nInstancePublic) {
+  return inst.sourceType === "hooks" || inst.sourceType === "native";
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function ago(iso: string) {
+  return formatDistanceToNow(new Date(iso), { addSuffix: true });
+}
+
+// Refresh while the dialog is open so pool counts and idle timers stay current
+const TUNNEL_REFRESH_MS = 5000;
+
+const sourceLabels: Record<SourceType, string> = {
+  hooks: "hooks log table",
+  native: "n8n execution tables",
+  api: "n8n REST API",
+  push: "pushed by hooks",
+};
 
 interface InstanceManageDialogProps {
   open: boolean;
@@ -20,15 +76,37 @@ interface InstanceManageDialogProps {
 
 export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialogProps) {
   const queryClient = useQueryClient();
+  // Operators test connections, handle tunnels and apply retention; the rest is admin-only
+  const isAdmin = useAuth().can("admin");
   const [formOpen, setFormOpen] = useState(false);
   const [editInstance, setEditInstance] = useState<N8nInstancePublic | null>(null);
   const [testingId, setTestingId] = useState<string | null>(null);
-  const [testResult, setTestResult] = useState<{ id: string; success: boolean; error?: string } | null>(null);
+  const [testResult, setTestResult] = useState<({ id: string } & ConnectionTestResult) | null>(null);
+  const [trustingId, setTrustingId] = useState<string | null>(null);
+  const [ingestToken, setIngestToken] = useState<{ id: string; token: string } | null>(null);
+  const [retentionInstance, setRetentionInstance] = useState<N8nInstancePublic | null>(null);
+  const [knownHostsInstance, setKnownHostsInstance] = useState<N8nInstancePublic | null>(null);
 
   const { data: instances = [], isLoading } = useQuery<N8nInstancePublic[]>({
     queryKey: ["/api/instances"],
   });
 
+  const { data: tunnels = [] } = useQuery<TunnelInfo[]>({
+    queryKey: ["/api/tunnels"],
+    enabled: open,
+    refetchInterval: open ? TUNNEL_REFRESH_MS : false,
+  });
+  const tunnelFor = (id: string) => tunnels.find((tunnel) => tunnel.instanceId === id);
+
+  const tunnelMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "close" | "reopen" }) => {
+      await apiRequest("POST", `/api/tunnels/${id}/${action}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tunnels"] });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/instances/${id}`);
@@ -56,6 +134,44 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
     }
   };
 
+  // Pin the key the user just compared, then test again; the next hop of a
+  // chain is only reached once the previous one is trusted
+  const handleTrustHostKey = async (id: string, hostKey: HostKeyPrompt) => {
+    setTrustingId(id);
+    try {
+      await apiRequest("POST", `/api/instances/${id}/host-keys/trust`, {
+        hop: hostKey.hop,
+        fingerprint: hostKey.fingerprint,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/instances"] });
+    } catch (err) {
+      setTestResult({
+        id,
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to trust host key",
+      });
+      return;
+    } finally {
+      setTrustingId(null);
+    }
+    await handleTestConnection(id);
+  };
+
+  const handleGenerateToken = async (id: string) => {
+    if (!confirm("Generate a new ingest token? Any existing token for this instance stops working.")) return;
+    try {
+      const res = await apiRequest("POST", `/api/instances/${id}/ingest-token`);
+      const data = await res.json();
+      setIngestToken({ id, token: data.token });
+    } catch (err) {
+      setTestResult({
+        id,
+        success: false,
+        error: err instanceof Error ? err.message : "Token generation failed",
+      });
+    }
+  };
+
   const handleEdit = (inst: N8nInstancePublic) => {
     setEditInstance(inst);
     setFormOpen(true);
@@ -80,10 +196,12 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
           <DialogHeader>
             <DialogTitle className="flex items-center justify-between">
               <span>Manage Instances</span>
-              <Button size="sm" onClick={handleAdd}>
-                <Plus className="h-4 w-4 mr-1" />
-                Add Instance
-              </Button>
+              {isAdmin && (
+                <Button size="sm" onClick={handleAdd}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Instance
+                </Button>
+              )}
             </DialogTitle>
           </DialogHeader>
 
@@ -95,7 +213,9 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
             <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
               <Server className="h-10 w-10 mb-3" />
               <p className="font-medium">No instances configured</p>
-              <p className="text-sm mt-1">Add an n8n instance to get started</p>
+              <p className="text-sm mt-1">
+                {isAdmin ? "Add an n8n instance to get started" : "Ask an admin for access to an instance"}
+              </p>
             </div>
           ) : (
             <div className="space-y-3">
@@ -105,19 +225,112 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
                     <div className="min-w-0 flex-1">
                       <h3 className="font-semibold truncate">{inst.name}</h3>
                       <div className="text-xs text-muted-foreground font-mono mt-2 space-y-1">
-                        <p>SSH: {inst.sshUser}@{inst.sshHost}:{inst.sshPort}</p>
-                        <p>DB: {inst.dbUser}@{inst.dbHost}:{inst.dbPort}/{inst.dbName}</p>
+                        {(inst.sourceType === "hooks" || inst.sourceType === "native") && (
+                          <>
+                            {isSshInstance(inst) ? (
+                              <>
+                                <p>SSH: {inst.sshUser}@{inst.sshHost}:{inst.sshPort}</p>
+                                {inst.sshJumpHosts.length > 0 && (
+                                  <p>
+                                    Via: {inst.sshJumpHosts.map((hop) => `${hop.user}@${hop.host}:${hop.port}`).join(" → ")}
+                                  </p>
+                                )}
+                                {unpinnedHostCount(inst) > 0 ? (
+                                  <p className="text-amber-600 dark:text-amber-400">
+                                    Host keys: {unpinnedHostCount(inst)} not pinned, test the connection to confirm
+                                  </p>
+                                ) : (
+                                  <p>Host keys: pinned</p>
+                                )}
+                              </>
+                            ) : (
+                              <p>Direct connection</p>
+                            )}
+                            <p>
+                              DB: {inst.dbUser}@{inst.dbHost}:{inst.dbPort}/{inst.dbName}
+                              {inst.dbSslMode !== "disable" && ` (TLS: ${inst.dbSslMode})`}
+                            </p>
+                            <TunnelStatus tunnel={tunnelFor(inst.id)} />
+                          </>
+                        )}
                         <p>n8n: {inst.n8nBaseUrl}</p>
+                        <p>Source: {sourceLabels[inst.sourceType]}</p>
+                        {inst.sourceType === "push" && (
+                          <p>Ingest: POST {window.location.origin}/api/ingest/{inst.id}</p>
+                        )}
                       </div>
-                      {testResult?.id === inst.id && (
+                      {ingestToken?.id === inst.id && (
+                        <div className="mt-2 rounded-md border border-border bg-muted/50 p-2 text-xs">
+                          <p className="text-muted-foreground mb-1">
+                            Copy this token now — it won't be shown again:
+                          </p>
+                          <p className="font-mono break-all select-all">{ingestToken.token}</p>
+                        </div>
+                      )}
+                      {tunnelMutation.error && tunnelMutation.variables?.id === inst.id && (
+                        <div className="mt-2">
+                          <Badge variant="destructive">
+                            Tunnel: {tunnelMutation.error instanceof Error ? tunnelMutation.error.message : "Failed"}
+                          </Badge>
+                        </div>
+                      )}
+                      {testResult?.id === inst.id && !testResult.hostKey && (
                         <div className="mt-2">
                           <Badge variant={testResult.success ? "success" : "destructive"}>
                             {testResult.success ? "Connected" : `Failed: ${testResult.error}`}
                           </Badge>
                         </div>
                       )}
+                      {testResult?.id === inst.id && testResult.hostKey && (
+                        <div
+                          className={testResult.hostKey.status === "mismatch"
+                            ? "mt-2 rounded-md border border-rose-200 dark:border-rose-800 bg-rose-50 dark:bg-rose-900/20 p-3 text-xs"
+                            : "mt-2 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 text-xs"}
+                        >
+                          <p className="font-medium mb-1">
+                            {testResult.hostKey.status === "mismatch"
+                              ? "Host key changed"
+                              : "Unknown host key"} for {testResult.hostKey.host}:{testResult.hostKey.port}
+                          </p>
+                          <p className="font-mono break-all">
+                            {testResult.hostKey.keyType} {testResult.hostKey.fingerprint}
+                          </p>
+                          <p className="text-muted-foreground mt-1">
+                            {testResult.hostKey.status === "mismatch"
+                              ? "This does not match the pinned key and the connection was refused. Only replace it if the host key was changed on purpose."
+                              : "Compare it with the output of ssh-keygen -lf on the host's public key before trusting it."}
+                          </p>
+                          <div className="flex gap-2 mt-2">
+                            {isAdmin ? (
+                              <Button
+                                size="sm"
+                                variant={testResult.hostKey.status === "mismatch" ? "destructive" : "default"}
+                                disabled={trustingId === inst.id}
+                                onClick={() => handleTrustHostKey(inst.id, testResult.hostKey!)}
+                              >
+                                {trustingId === inst.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {testResult.hostKey.status === "mismatch" ? "Replace pinned key" : "Trust and retest"}
+                              </Button>
+                            ) : (
+                              <p className="text-muted-foreground self-center">Only an admin can pin host keys.</p>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => setTestResult(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center gap-1.5 shrink-0">
+                      {isAdmin && inst.sourceType === "push" && (
+                        <button
+                          className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+                          onClick={() => handleGenerateToken(inst.id)}
+                          title="Generate ingest token"
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </button>
+                      )}
                       <button
                         className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors"
                         onClick={() => handleTestConnection(inst.id)}
@@ -130,21 +343,65 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
                           <Plug className="h-4 w-4" />
                         )}
                       </button>
+                      {usesTunnel(inst) && tunnelFor(inst.id)?.state === "open" && (
+                        <button
+                          className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors"
+                          onClick={() => tunnelMutation.mutate({ id: inst.id, action: "close" })}
+                          disabled={tunnelMutation.isPending}
+                          title="Close tunnel"
+                        >
+                          <Unplug className="h-4 w-4" />
+                        </button>
+                      )}
+                      {usesTunnel(inst) && (
+                        <button
+                          className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors"
+                          onClick={() => tunnelMutation.mutate({ id: inst.id, action: "reopen" })}
+                          disabled={tunnelMutation.isPending}
+                          title={tunnelFor(inst.id)?.state === "open" ? "Reopen tunnel" : "Open tunnel"}
+                        >
+                          {tunnelMutation.isPending && tunnelMutation.variables?.id === inst.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                        </button>
+                      )}
+                      {isAdmin && isSshInstance(inst) && (
+                        <button
+                          className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+                          onClick={() => setKnownHostsInstance(inst)}
+                          title="Import known_hosts"
+                        >
+                          <FileKey className="h-4 w-4" />
+                        </button>
+                      )}
                       <button
                         className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
-                        onClick={() => handleEdit(inst)}
-                        title="Edit"
+                        onClick={() => setRetentionInstance(inst)}
+                        title="Retention & storage"
                       >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors text-rose-500"
-                        onClick={() => handleDelete(inst.id)}
-                        disabled={deleteMutation.isPending}
-                        title="Delete"
-                      >
-                        <Trash2 className="h-4 w-4" />
+                        <Archive className="h-4 w-4" />
                       </button>
+                      {isAdmin && (
+                        <>
+                          <button
+                            className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+                            onClick={() => handleEdit(inst)}
+                            title="Edit"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors text-rose-500"
+                            onClick={() => handleDelete(inst.id)}
+                            disabled={deleteMutation.isPending}
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -159,6 +416,47 @@ export function InstanceManageDialog({ open, onOpenChange }: InstanceManageDialo
         onOpenChange={setFormOpen}
         editInstance={editInstance}
       />
+
+      <RetentionSettingsDialog
+        instance={retentionInstance}
+        onOpenChange={(open) => !open && setRetentionInstance(null)}
+      />
+
+      <KnownHostsImportDialog
+        instance={knownHostsInstance}
+        onOpenChange={(open) => !open && setKnownHostsInstance(null)}
+      />
+    </>
+  );
+}
+
+/** One line per aspect of the instance's pooled connection, in the mono block. */
+function TunnelStatus({ tunnel }: { tunnel: TunnelInfo | undefined }) {
+  if (!tunnel) return null;
+
+  if (tunnel.state !== "open") {
+    return (
+      <p>
+        Tunnel: {tunnel.state}
+        {tunnel.lastClosedAt && ` (${tunnel.lastCloseReason}, ${ago(tunnel.lastClosedAt)})`}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p>
+        Tunnel: open since {ago(tunnel.openedAt!)}, last used {ago(tunnel.lastUsedAt!)}
+        {tunnel.localPort !== null && `, local port ${tunnel.localPort}`}
+      </p>
+      {tunnel.pool && (
+        <p>
+          Pool: {tunnel.pool.total} open, {tunnel.pool.idle} idle, {tunnel.pool.waiting} waiting
+          {tunnel.bytesForwarded &&
+            ` · ${formatBytes(tunnel.bytesForwarded.toDb)} sent, ${formatBytes(tunnel.bytesForwarded.fromDb)} received`}
+        </p>
+      )}
+      {tunnel.idleCloseAt && <p>Idle close {ago(tunnel.idleCloseAt)}</p>}
     </>
   );
 }
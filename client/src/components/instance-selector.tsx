@@ -7,11 +7,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useInstance } from "@/lib/instance-context";
+import { useAuth } from "@/lib/auth-context";
 import { useState } from "react";
 import { InstanceManageDialog } from "./instance-manage-dialog";
 
 export function InstanceSelector() {
   const { instances, selectedInstanceId, setSelectedInstanceId, isLoading } = useInstance();
+  const { can } = useAuth();
   const [manageOpen, setManageOpen] = useState(false);
 
   return (
@@ -32,15 +34,19 @@ export function InstanceSelector() {
           ))}
         </SelectContent>
       </Select>
-      <button
-        className="h-9 w-9 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
-        onClick={() => setManageOpen(true)}
-        title="Manage instances"
-      >
-        <Settings className="h-4 w-4 text-foreground" />
-      </button>
+      {can("operator") && (
+        <>
+          <button
+            className="h-9 w-9 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+            onClick={() => setManageOpen(true)}
+            title="Manage instances"
+          >
+            <Settings className="h-4 w-4 text-foreground" />
+          </button>
 
-      <InstanceManageDialog open={manageOpen} onOpenChange={setManageOpen} />
+          <InstanceManageDialog open={manageOpen} onOpenChange={setManageOpen} />
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import type { KnownHostsImportResult, N8nInstancePublic } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface KnownHostsImportDialogProps {
+  instance: N8nInstancePublic | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function KnownHostsImportDialog({ instance, onOpenChange }: KnownHostsImportDialogProps) {
+  const queryClient = useQueryClient();
+  const [knownHosts, setKnownHosts] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<KnownHostsImportResult> => {
+      const res = await apiRequest("POST", `/api/instances/${instance?.id}/host-keys/import`, { knownHosts });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/instances"] });
+    },
+  });
+
+  useEffect(() => {
+    if (!instance) return;
+    setKnownHosts("");
+    mutation.reset();
+  }, [instance?.id]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setKnownHosts(await file.text());
+  };
+
+  return (
+    <Dialog open={!!instance} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import known_hosts — {instance?.name}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground">
+          Pins the keys listed for the SSH host and each jump host, hashed entries included. Hops
+          without an entry keep their current keys.
+        </p>
+        <Input type="file" onChange={(e) => handleFile(e.target.files?.[0])} />
+        <Textarea
+          rows={8}
+          className="font-mono text-xs"
+          placeholder="bastion.example.com ssh-ed25519 AAAAC3Nza..."
+          value={knownHosts}
+          onChange={(e) => setKnownHosts(e.target.value)}
+        />
+
+        {mutation.data && (
+          <div className="rounded-md border border-border p-3 text-xs space-y-1">
+            {mutation.data.hops.map((hop) => (
+              <p key={hop.hop} className="font-mono">
+                {hop.host}:{hop.port} —{" "}
+                {hop.keys > 0 ? `${hop.keys} key(s) pinned` : "no entry, unchanged"}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {mutation.error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">
+              {mutation.error instanceof Error ? mutation.error.message : "Import failed"}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={() => mutation.mutate()} disabled={!knownHosts.trim() || mutation.isPending}>
+            {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { N8nInstancePublic, RetentionRule, StorageUsage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+
+// Radix Select items can't have an empty value
+const ANY = "__any__";
+const STATUSES = ["success", "error", "running", "waiting", "canceled"] as const;
+
+interface RuleRow {
+  workflowName: string;
+  status: string;
+  payloadDays: string;
+  metadataDays: string;
+}
+
+function toRow(rule: RetentionRule): RuleRow {
+  return {
+    workflowName: rule.workflowName ?? ANY,
+    status: rule.status ?? ANY,
+    payloadDays: rule.payloadDays?.toString() ?? "",
+    metadataDays: rule.metadataDays?.toString() ?? "",
+  };
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+interface RetentionSettingsDialogProps {
+  instance: N8nInstancePublic | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RetentionSettingsDialog({ instance, onOpenChange }: RetentionSettingsDialogProps) {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canEdit = can("admin");
+  const instanceId = instance?.id;
+  const [rows, setRows] = useState<RuleRow[]>([]);
+
+  const { data: rules, isLoading } = useQuery<RetentionRule[]>({
+    queryKey: [`/api/instances/${instanceId}/retention-rules`],
+    enabled: !!instanceId,
+  });
+
+  const { data: storage } = useQuery<StorageUsage>({
+    queryKey: [`/api/instances/${instanceId}/storage`],
+    enabled: !!instanceId,
+  });
+
+  const { data: workflowNames = [] } = useQuery<string[]>({
+    queryKey: [`/api/workflow-names?instanceId=${instanceId}`],
+    enabled: !!instanceId,
+  });
+
+  useEffect(() => {
+    if (rules) setRows(rules.map(toRow));
+  }, [rules]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/instances/${instanceId}/retention-rules`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/instances/${instanceId}/storage`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = rows.map((row) => ({
+        workflowName: row.workflowName === ANY ? null : row.workflowName,
+        status: row.status === ANY ? null : row.status,
+        payloadDays: row.payloadDays ? Number(row.payloadDays) : null,
+        metadataDays: row.metadataDays ? Number(row.metadataDays) : null,
+      }));
+      await apiRequest("PUT", `/api/instances/${instanceId}/retention-rules`, body);
+    },
+    onSuccess: invalidate,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/instances/${instanceId}/retention/apply`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateRow = (index: number, patch: Partial<RuleRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const error = saveMutation.error ?? applyMutation.error;
+
+  return (
+    <Dialog open={!!instance} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Retention — {instance?.name}</DialogTitle>
+        </DialogHeader>
+
+        {storage && (
+          <div className="rounded-lg border border-border p-4 text-sm">
+            <h4 className="font-medium mb-2">Storage used</h4>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span>Executions: <span className="font-mono text-foreground">{storage.rowCount.toLocaleString()}</span></span>
+              <span>With payloads: <span className="font-mono text-foreground">{storage.payloadRowCount.toLocaleString()}</span></span>
+              <span>Payload size: <span className="font-mono text-foreground">{formatBytes(storage.payloadBytes)}</span></span>
+              <span>Table size (all instances): <span className="font-mono text-foreground">{formatBytes(storage.tableBytes)}</span></span>
+              <span>
+                Oldest: <span className="text-foreground">
+                  {storage.oldestAt ? formatDistanceToNow(new Date(storage.oldestAt), { addSuffix: true }) : "—"}
+                </span>
+              </span>
+              {storage.lastRetentionRunAt && (
+                <span>
+                  Last run {formatDistanceToNow(new Date(storage.lastRetentionRunAt), { addSuffix: true })}:{" "}
+                  {storage.lastRetentionPrunedCount ?? 0} pruned, {storage.lastRetentionDeletedCount ?? 0} deleted
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-lg border border-border p-4">
+          <h4 className="text-sm font-medium mb-1">Rules</h4>
+          <p className="text-xs text-muted-foreground mb-3">
+            Payloads are cleared after the first age and rows deleted after the second; leave a field
+            blank to keep forever. The most specific matching rule wins. Counts and charts keep
+            working on the remaining metadata.
+          </p>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            // Operators can apply the rules but only admins change them
+            <fieldset disabled={!canEdit} className="space-y-2">
+              {rows.length > 0 && (
+                <div className="grid grid-cols-[1fr_8rem_5.5rem_5.5rem_2rem] gap-2 text-xs text-muted-foreground">
+                  <span>Workflow</span>
+                  <span>Status</span>
+                  <span>Payload days</span>
+                  <span>Keep days</span>
+                  <span />
+                </div>
+              )}
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_8rem_5.5rem_5.5rem_2rem] gap-2 items-center">
+                  <Select value={row.workflowName} onValueChange={(value) => updateRow(index, { workflowName: value })}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All workflows</SelectItem>
+                      {workflowNames.map((name) => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={row.status} onValueChange={(value) => updateRow(index, { status: value })}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any status</SelectItem>
+                      {STATUSES.map((status) => (
+                        <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8 text-xs"
+                    placeholder="∞"
+                    value={row.payloadDays}
+                    onChange={(e) => updateRow(index, { payloadDays: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8 text-xs"
+                    placeholder="∞"
+                    value={row.metadataDays}
+                    onChange={(e) => updateRow(index, { metadataDays: e.target.value })}
+                  />
+                  {canEdit ? (
+                    <button
+                      className="h-8 w-8 rounded-md flex items-center justify-center text-rose-500 hover:bg-accent transition-colors"
+                      onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                      title="Remove rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  ) : (
+                    <span />
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRows((current) => [
+                    ...current,
+                    { workflowName: ANY, status: ANY, payloadDays: "14", metadataDays: "180" },
+                  ])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add rule
+                </Button>
+              )}
+            </fieldset>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">
+              {error instanceof Error ? error.message : "Request failed"}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => applyMutation.mutate()}
+            disabled={applyMutation.isPending || saveMutation.isPending}
+          >
+            {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply now
+          </Button>
+          {canEdit && (
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save rules
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
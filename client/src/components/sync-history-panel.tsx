@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import type { SyncRunInfo } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface SyncHistoryPanelProps {
+  instanceId: string;
+}
+
+function formatMs(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function SyncHistoryPanel({ instanceId }: SyncHistoryPanelProps) {
+  const { data: runs = [], isLoading, error } = useQuery<SyncRunInfo[]>({
+    queryKey: [`/api/instances/${instanceId}/sync-runs`],
+    refetchInterval: 30_000,
+  });
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold mb-2">Sync History</h4>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">
+          {error instanceof Error ? error.message : "Failed to load sync history"}
+        </p>
+      ) : runs.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No syncs recorded yet</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto -mx-1 px-1 space-y-1.5">
+          {runs.map((run) => {
+            const inProgress = !run.finishedAt;
+            const durationMs = run.finishedAt
+              ? new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()
+              : null;
+            return (
+              <div key={run.id} className="rounded-md border border-border px-2.5 py-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <div className={cn(
+                    "h-1.5 w-1.5 rounded-full shrink-0",
+                    inProgress ? "bg-blue-500" : run.success ? "bg-emerald-500" : "bg-rose-500"
+                  )} />
+                  <span className="font-mono">{format(new Date(run.startedAt), "MMM d HH:mm:ss")}</span>
+                  <span className="text-muted-foreground capitalize">{run.trigger}</span>
+                  <span className="ml-auto font-mono text-muted-foreground">
+                    {inProgress ? "running…" : formatMs(durationMs ?? 0)}
+                  </span>
+                </div>
+                <div className="mt-1 flex flex-wrap gap-x-3 text-muted-foreground">
+                  <span>{run.rowsFetched} fetched</span>
+                  <span>{run.rowsUpserted} new or changed</span>
+                  <span>{formatBytes(run.bytesTransferred)}</span>
+                  <span>tunnel {formatMs(run.tunnelSetupMs)}</span>
+                  <span>query {formatMs(run.queryMs)}</span>
+                </div>
+                {run.error && (
+                  <p className="mt-1 text-destructive break-words line-clamp-3" title={run.error}>
+                    {run.error}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { CircleUser, History, KeyRound, KeySquare, LogOut, Users } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/lib/auth-context";
+import { ChangePasswordDialog } from "./change-password-dialog";
+import { UsersDialog } from "./users-dialog";
+import { ApiTokensDialog } from "./api-tokens-dialog";
+import { AuditLogDialog } from "./audit-log-dialog";
+
+export function UserMenu() {
+  const { user, logout } = useAuth();
+  const [passwordOpen, setPasswordOpen] = useState(false);
+  const [usersOpen, setUsersOpen] = useState(false);
+  const [tokensOpen, setTokensOpen] = useState(false);
+  const [auditOpen, setAuditOpen] = useState(false);
+
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="h-9 w-9 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+            title={user.username}
+            data-testid="button-user-menu"
+          >
+            <CircleUser className="h-4 w-4 text-foreground" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuLabel className="font-normal">
+            <p className="text-sm font-medium truncate">{user.username}</p>
+            <p className="text-xs text-muted-foreground capitalize">{user.role}</p>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {/* Single sign-on accounts have no password here */}
+          {!user.oidcSubject && (
+            <DropdownMenuItem onSelect={() => setPasswordOpen(true)}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              Change password
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setTokensOpen(true)}>
+            <KeySquare className="h-4 w-4 mr-2" />
+            API tokens
+          </DropdownMenuItem>
+          {user.role === "admin" && (
+            <>
+              <DropdownMenuItem onSelect={() => setUsersOpen(true)}>
+                <Users className="h-4 w-4 mr-2" />
+                Users
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setAuditOpen(true)}>
+                <History className="h-4 w-4 mr-2" />
+                Audit log
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => logout()}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ChangePasswordDialog open={passwordOpen} onOpenChange={setPasswordOpen} />
+      <ApiTokensDialog open={tokensOpen} onOpenChange={setTokensOpen} />
+      {user.role === "admin" && (
+        <>
+          <UsersDialog open={usersOpen} onOpenChange={setUsersOpen} />
+          <AuditLogDialog open={auditOpen} onOpenChange={setAuditOpen} />
+        </>
+      )}
+    </>
+  );
+}
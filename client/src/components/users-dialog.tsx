@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Loader2, UserPlus, Link2, Ban, CircleCheck, Server } from "lucide-react";
+import {
+  userRoles,
+  type N8nInstancePublic,
+  type UserInvite,
+  type UserRole,
+  type UserWithGrants,
+} from "@shared/schema";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+
+function inviteLink(invite: UserInvite) {
+  return `${window.location.origin}/accept-invite?token=${encodeURIComponent(invite.token)}`;
+}
+
+interface UsersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface UserUpdate {
+  id: string;
+  role?: UserRole;
+  disabled?: boolean;
+  allInstances?: boolean;
+  instanceIds?: string[];
+}
+
+function accessLabel(user: UserWithGrants) {
+  if (user.role === "admin" || user.allInstances) return "All instances";
+  if (user.instanceIds.length === 0) return "No instances";
+  return `${user.instanceIds.length} instance${user.instanceIds.length === 1 ? "" : "s"}`;
+}
+
+/** Admin screen: invite users, change their role and the instances they see,
+ *  disable or re-enable them. */
+export function UsersDialog({ open, onOpenChange }: UsersDialogProps) {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+  const [invite, setInvite] = useState<UserInvite | null>(null);
+
+  const { data: users = [], isLoading } = useQuery<UserWithGrants[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  const { data: instances = [] } = useQuery<N8nInstancePublic[]>({
+    queryKey: ["/api/instances"],
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setUsername("");
+    setInvite(null);
+  }, [open]);
+
+  const inviteMutation = useMutation({
+    mutationFn: async (userId?: string): Promise<UserInvite> => {
+      const res = userId
+        ? await apiRequest("POST", `/api/users/${userId}/invite`)
+        : await apiRequest("POST", "/api/users/invite", { username, role });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setInvite(data);
+      setUsername("");
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: UserUpdate) => {
+      await apiRequest("PATCH", `/api/users/${id}`, data);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+  });
+
+  const handleToggleDisabled = (user: UserWithGrants) => {
+    if (!user.disabledAt && !confirm(`Disable ${user.username}? They are signed out right away.`)) return;
+    updateMutation.mutate({ id: user.id, disabled: !user.disabledAt });
+  };
+
+  const error = inviteMutation.error ?? updateMutation.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Users</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Username"
+            className="h-9"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger className="h-9 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {userRoles.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            className="h-9"
+            onClick={() => inviteMutation.mutate(undefined)}
+            disabled={!username.trim() || inviteMutation.isPending}
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Invite
+          </Button>
+        </div>
+
+        {invite && (
+          <div className="rounded-md border border-border bg-muted/50 p-2 text-xs">
+            <p className="text-muted-foreground mb-1">
+              Send this link to {invite.user.username} — it won't be shown again and expires{" "}
+              {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}:
+            </p>
+            <p className="font-mono break-all select-all">{inviteLink(invite)}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 p-3">
+            <p className="text-sm text-rose-700 dark:text-rose-400">{errorMessage(error, "Request failed")}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {users.map((user) => {
+              const isSelf = user.id === currentUser?.id;
+              return (
+                <div key={user.id} className="rounded-lg border border-border bg-card p-3 flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{user.username}</span>
+                      {isSelf && <Badge variant="outline">You</Badge>}
+                      {user.oidcSubject && (
+                        <Badge variant="secondary" title="Role follows the identity provider's groups at each login">
+                          SSO
+                        </Badge>
+                      )}
+                      {user.invitePending && <Badge variant="secondary">Invite pending</Badge>}
+                      {user.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {user.lastLoginAt
+                        ? `Last login ${formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })}`
+                        : "Never logged in"}
+                      {" · "}
+                      {accessLabel(user)}
+                    </p>
+                  </div>
+                  {user.role !== "admin" && (
+                    <InstanceAccessPopover
+                      user={user}
+                      instances={instances}
+                      disabled={updateMutation.isPending}
+                      onChange={(update) => updateMutation.mutate({ id: user.id, ...update })}
+                    />
+                  )}
+                  <Select
+                    value={user.role}
+                    onValueChange={(value) => updateMutation.mutate({ id: user.id, role: value as UserRole })}
+                    disabled={isSelf || updateMutation.isPending}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userRoles.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {user.invitePending && (
+                    <button
+                      className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors"
+                      onClick={() => inviteMutation.mutate(user.id)}
+                      disabled={inviteMutation.isPending}
+                      title="New invite link"
+                    >
+                      <Link2 className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center disabled:opacity-50 hover:bg-accent transition-colors"
+                    onClick={() => handleToggleDisabled(user)}
+                    disabled={isSelf || updateMutation.isPending}
+                    title={user.disabledAt ? "Enable" : "Disable"}
+                  >
+                    {user.disabledAt ? <CircleCheck className="h-4 w-4" /> : <Ban className="h-4 w-4 text-rose-500" />}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Instance grants of one user: everything, or the checked instances. */
+function InstanceAccessPopover({
+  user,
+  instances,
+  disabled,
+  onChange,
+}: {
+  user: UserWithGrants;
+  instances: N8nInstancePublic[];
+  disabled: boolean;
+  onChange: (update: Pick<UserUpdate, "allInstances" | "instanceIds">) => void;
+}) {
+  const toggle = (instanceId: string, checked: boolean) => {
+    onChange({
+      instanceIds: checked
+        ? [...user.instanceIds, instanceId]
+        : user.instanceIds.filter((id) => id !== instanceId),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="h-8 w-8 rounded-md border border-border bg-background flex items-center justify-center hover:bg-accent transition-colors"
+          title="Instance access"
+        >
+          <Server className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`all-instances-${user.id}`} className="text-sm">All instances</Label>
+          <Switch
+            id={`all-instances-${user.id}`}
+            checked={user.allInstances}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ allInstances: checked })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Includes instances added later.
+        </p>
+        {!user.allInstances && (
+          <div className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+            {instances.length === 0 && (
+              <p className="text-xs text-muted-foreground">No instances configured.</p>
+            )}
+            {instances.map((inst) => (
+              <label key={inst.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={user.instanceIds.includes(inst.id)}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => toggle(inst.id, checked === true)}
+                />
+                <span className="truncate">{inst.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
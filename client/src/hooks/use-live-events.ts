@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+// Coalesce bursts (e.g. a multi-page sync) into one refetch
+const INVALIDATE_DEBOUNCE_MS = 1000;
+
+function invalidateExecutionQueries(instanceId: string) {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" &&
+        (key.startsWith("/api/executions") || key.startsWith("/api/workflow-names")) &&
+        key.includes(instanceId);
+    },
+  });
+}
+
+function invalidateSyncQueries(instanceId: string) {
+  queryClient.invalidateQueries({ queryKey: [`/api/sync-status?instanceId=${instanceId}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/instances/${instanceId}/sync-runs`] });
+}
+
+/** Subscribes to /api/events for the instance and invalidates the matching
+ *  queries as the poller reports new or changed executions and sync status.
+ *  Returns whether the stream is currently connected. */
+export function useLiveEvents(instanceId: string | null) {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!instanceId) return;
+
+    const source = new EventSource(`/api/events?instanceId=${encodeURIComponent(instanceId)}`);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    source.onopen = () => setConnected(true);
+    // EventSource reconnects by itself; just reflect the state meanwhile
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("executions", () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => invalidateExecutionQueries(instanceId), INVALIDATE_DEBOUNCE_MS);
+    });
+    source.addEventListener("refresh", () => invalidateExecutionQueries(instanceId));
+    source.addEventListener("sync-status", () => invalidateSyncQueries(instanceId));
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      source.close();
+      setConnected(false);
+    };
+  }, [instanceId]);
+
+  return connected;
+}
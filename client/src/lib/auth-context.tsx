@@ -0,0 +1,59 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { hasRole, type AuthStatus, type UserPublic, type UserRole } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface AuthContextValue {
+  user: UserPublic | null;
+  setupRequired: boolean;
+  // Label for the single sign-on button, null when it isn't configured
+  ssoProvider: string | null;
+  isLoading: boolean;
+  // Whether the user's role includes the given one, for hiding actions
+  can: (role: UserRole) => boolean;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AUTH_STATUS_KEY = ["/api/auth/status"];
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data, isLoading } = useQuery<AuthStatus>({
+    queryKey: AUTH_STATUS_KEY,
+    staleTime: Infinity,
+  });
+
+  const user = data?.user ?? null;
+
+  function can(role: UserRole) {
+    return user !== null && hasRole(user.role, role);
+  }
+
+  async function logout() {
+    await apiRequest("POST", "/api/auth/logout");
+    // Nothing cached for this user should outlive the session
+    queryClient.clear();
+  }
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        setupRequired: data?.setupRequired ?? false,
+        ssoProvider: data?.ssoProvider ?? null,
+        isLoading,
+        can,
+        logout,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used within AuthProvider");
+  return ctx;
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -42,6 +42,14 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    // An expired or ended session shows the login page again
+    onError: (error, query) => {
+      if (error.message.startsWith("401:") && query.queryKey[0] !== "/api/auth/status") {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -55,3 +63,18 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+/** The `error` text of a failed apiRequest, without the status prefix and
+ *  JSON wrapping; validation errors list their messages. */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed.error === "string") return parsed.error;
+    if (Array.isArray(parsed.error)) {
+      return parsed.error.map((issue: { message?: string }) => issue.message).filter(Boolean).join("; ") || fallback;
+    }
+  } catch {}
+  return body || fallback;
+}
@@ -0,0 +1,94 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AuthStatus, UserPublic } from "@shared/schema";
+import { MIN_PASSWORD_LENGTH } from "@shared/schema";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { AUTH_STATUS_KEY } from "@/lib/auth-context";
+import { AuthCard } from "./login";
+
+/** Landing page of an invite link (/accept-invite?token=…): sets the
+ *  password and signs in. */
+export default function AcceptInvite() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [, navigate] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<UserPublic> => {
+      const res = await apiRequest("POST", "/api/auth/accept-invite", { token, password });
+      return res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData<AuthStatus>(AUTH_STATUS_KEY, (prev) => ({
+        user,
+        setupRequired: false,
+        ssoProvider: prev?.ssoProvider ?? null,
+      }));
+      navigate("/", { replace: true });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate();
+  };
+
+  const mismatch = confirmation.length > 0 && confirmation !== password;
+
+  return (
+    <AuthCard title="Accept invite" description="Choose a password for your dashboard account.">
+      {!token ? (
+        <p className="text-sm text-rose-700 dark:text-rose-400">
+          This link has no invite token. Ask an admin for a new invite link.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters.</p>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="confirmation">Repeat password</Label>
+            <Input
+              id="confirmation"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+            {mismatch && <p className="text-xs text-rose-700 dark:text-rose-400">Passwords don't match.</p>}
+          </div>
+
+          {mutation.error && (
+            <p className="text-sm text-rose-700 dark:text-rose-400">
+              {errorMessage(mutation.error, "Could not accept the invite")}
+            </p>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!password || password !== confirmation || mutation.isPending}
+          >
+            {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set password and sign in
+          </Button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -40,9 +40,20 @@ import { StatusDistributionChart } from "@/components/status-distribution-chart"
 import { WorkflowErrorDonutChart } from "@/components/workflow-error-donut-chart";
 import { ExecutionTable } from "@/components/execution-table";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
 import { InstanceSelector } from "@/components/instance-selector";
+import { SyncHistoryPanel } from "@/components/sync-history-panel";
 import { useInstance } from "@/lib/instance-context";
-import type { ExecutionLog, ExecutionStats, DailyStats, WorkflowStats } from "@shared/schema";
+import { useAuth } from "@/lib/auth-context";
+import { useLiveEvents } from "@/hooks/use-live-events";
+import type {
+  ExecutionLog,
+  ExecutionStats,
+  DailyStats,
+  WorkflowStats,
+  N8nInstancePublic,
+  CircuitState,
+} from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 
@@ -52,11 +63,47 @@ interface SyncStatusData {
   lastSyncSuccess: boolean | null;
   lastSyncError: string | null;
   lastSyncRecordCount: number | null;
+  consecutiveFailures: number;
+  circuitState: CircuitState;
+  nextRetryAt: string | null;
+  lastReconciledAt: string | null;
+  lastReconcileCheckedCount: number | null;
+  lastReconcileMissingCount: number | null;
+  lastReconcileError: string | null;
   updatedAt: string;
 }
 
+function describeSyncStatus(status: SyncStatusData): string {
+  if (status.circuitState === "half_open") return "Retrying now...";
+  if (status.lastSyncSuccess === false) {
+    if (status.circuitState === "open" && status.nextRetryAt) {
+      const ms = new Date(status.nextRetryAt).getTime() - Date.now();
+      if (ms <= 0) return "Sync error, retrying soon";
+      const wait = ms < 60_000 ? `${Math.ceil(ms / 1000)}s` : `${Math.ceil(ms / 60_000)}m`;
+      return `Sync error, retrying in ${wait}`;
+    }
+    return "Sync error";
+  }
+  return status.lastSyncedAt
+    ? `Synced ${formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })}`
+    : "Syncing...";
+}
+
+function describeSchedule(instance: N8nInstancePublic | null): string {
+  if (!instance) return "";
+  if (instance.sourceType === "push") return "Executions pushed by the instance";
+  if (!instance.pollingEnabled) return "Scheduled sync paused";
+  const seconds = instance.pollIntervalSeconds;
+  const every = seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+  const quiet = instance.quietHoursStart && instance.quietHoursEnd
+    ? ` (quiet ${instance.quietHoursStart}–${instance.quietHoursEnd})`
+    : "";
+  return `Auto-synced every ${every}${quiet}`;
+}
+
 export default function Dashboard() {
   const { selectedInstanceId, selectedInstance, instances, isLoading: instancesLoading } = useInstance();
+  const { can } = useAuth();
 
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
@@ -135,6 +182,8 @@ export default function Dashboard() {
     enabled: !!selectedInstanceId,
   });
 
+  const liveConnected = useLiveEvents(selectedInstanceId);
+
   const { data: syncStatusData } = useQuery<SyncStatusData | null>({
     queryKey: [`/api/sync-status?instanceId=${selectedInstanceId}`],
     enabled: !!selectedInstanceId,
@@ -200,7 +249,8 @@ export default function Dashboard() {
   };
 
   const handleRefresh = async () => {
-    if (selectedInstanceId) {
+    // Viewers can't trigger syncs; they just reload the cached data
+    if (selectedInstanceId && can("operator")) {
       try {
         await apiRequest("POST", `/api/instances/${selectedInstanceId}/sync`);
       } catch {
@@ -211,6 +261,7 @@ export default function Dashboard() {
     queryClient.invalidateQueries({ queryKey: [`/api/executions/stats?${filterParams}`] });
     queryClient.invalidateQueries({ queryKey: [`/api/executions/daily?${filterParams}`] });
     queryClient.invalidateQueries({ queryKey: [`/api/sync-status?instanceId=${selectedInstanceId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/instances/${selectedInstanceId}/sync-runs`] });
     queryClient.invalidateQueries({ queryKey: [`/api/workflow-names?instanceId=${selectedInstanceId}`] });
     queryClient.invalidateQueries({
       predicate: (query) =>
@@ -252,19 +303,43 @@ export default function Dashboard() {
             <div className="flex items-center gap-2">
               <InstanceSelector />
               {selectedInstanceId && syncStatusData && (
-                <div className="hidden sm:flex items-center gap-1.5 text-xs">
-                  <div className={cn(
-                    "h-1.5 w-1.5 rounded-full",
-                    syncStatusData.lastSyncSuccess === false ? "bg-rose-500" : "bg-emerald-500"
-                  )} />
-                  <span className="text-muted-foreground">
-                    {syncStatusData.lastSyncSuccess === false
-                      ? `Sync error`
-                      : syncStatusData.lastSyncedAt
-                        ? `Synced ${formatDistanceToNow(new Date(syncStatusData.lastSyncedAt), { addSuffix: true })}`
-                        : "Syncing..."}
-                  </span>
-                </div>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      className="hidden sm:flex items-center gap-1.5 text-xs rounded-md px-2 py-1 hover:bg-accent transition-colors"
+                      title="Show sync history"
+                    >
+                      <div className={cn(
+                        "h-1.5 w-1.5 rounded-full",
+                        syncStatusData.circuitState === "half_open"
+                          ? "bg-amber-500"
+                          : syncStatusData.lastSyncSuccess === false ? "bg-rose-500" : "bg-emerald-500"
+                      )} />
+                      <span className="text-muted-foreground">
+                        {describeSyncStatus(syncStatusData)}
+                      </span>
+                      {liveConnected && (
+                        <span className="text-[10px] uppercase tracking-wide text-emerald-600 dark:text-emerald-400">
+                          Live
+                        </span>
+                      )}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-96" align="end">
+                    {syncStatusData.lastReconciledAt && (
+                      <p className={cn(
+                        "text-xs mb-3",
+                        syncStatusData.lastReconcileError ? "text-destructive" : "text-muted-foreground"
+                      )}>
+                        Reconciled {formatDistanceToNow(new Date(syncStatusData.lastReconciledAt), { addSuffix: true })}
+                        {syncStatusData.lastReconcileError
+                          ? `: ${syncStatusData.lastReconcileError}`
+                          : `: ${syncStatusData.lastReconcileMissingCount ?? 0} of ${syncStatusData.lastReconcileCheckedCount ?? 0} executions gone upstream`}
+                      </p>
+                    )}
+                    <SyncHistoryPanel instanceId={selectedInstanceId} />
+                  </PopoverContent>
+                </Popover>
               )}
               <Button
                 variant="outline"
@@ -279,6 +354,7 @@ export default function Dashboard() {
                 Refresh
               </Button>
               <ThemeToggle />
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -292,7 +368,9 @@ export default function Dashboard() {
               <Server className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
               <h3 className="font-semibold text-lg mb-1">No instances configured</h3>
               <p className="text-sm text-muted-foreground">
-                Click the gear icon above to add your first n8n instance.
+                {can("admin")
+                  ? "Click the gear icon above to add your first n8n instance."
+                  : "No instances have been shared with you yet. Ask an admin for access."}
               </p>
             </div>
           )}
@@ -563,7 +641,7 @@ export default function Dashboard() {
               n8n Execution Dashboard
             </p>
             <p className="text-sm text-muted-foreground">
-              Auto-synced every 60s
+              {describeSchedule(selectedInstance)}
             </p>
           </div>
         </div>
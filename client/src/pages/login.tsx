@@ -0,0 +1,125 @@
+import { useState, type FormEvent, type ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Activity, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AuthStatus, UserPublic } from "@shared/schema";
+import { MIN_PASSWORD_LENGTH } from "@shared/schema";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import { AUTH_STATUS_KEY, useAuth } from "@/lib/auth-context";
+
+/** Sign-in form. Before any account exists it creates the first admin instead. */
+export default function Login({ setup = false }: { setup?: boolean }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { ssoProvider } = useAuth();
+  // Set by the single sign-on callback when the login failed
+  const ssoError = new URLSearchParams(useSearch()).get("sso_error");
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<UserPublic> => {
+      const res = await apiRequest("POST", setup ? "/api/auth/setup" : "/api/auth/login", { username, password });
+      return res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData<AuthStatus>(AUTH_STATUS_KEY, (prev) => ({
+        user,
+        setupRequired: false,
+        ssoProvider: prev?.ssoProvider ?? null,
+      }));
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate();
+  };
+
+  return (
+    <AuthCard
+      title={setup ? "Create the admin account" : "Sign in"}
+      description={setup
+        ? "No accounts exist yet. This account can invite everyone else."
+        : undefined}
+    >
+      {ssoProvider && !setup && (
+        <div className="space-y-4 mb-4">
+          <Button asChild variant="outline" className="w-full">
+            <a href="/api/auth/oidc/login">Sign in with {ssoProvider}</a>
+          </Button>
+          {ssoError && (
+            <p className="text-sm text-rose-700 dark:text-rose-400">{ssoError}</p>
+          )}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <div className="h-px flex-1 bg-border" />
+            or
+            <div className="h-px flex-1 bg-border" />
+          </div>
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="username">Username</Label>
+          <Input
+            id="username"
+            autoComplete="username"
+            autoFocus
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete={setup ? "new-password" : "current-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {setup && (
+            <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters.</p>
+          )}
+        </div>
+
+        {mutation.error && (
+          <p className="text-sm text-rose-700 dark:text-rose-400">
+            {errorMessage(mutation.error, setup ? "Setup failed" : "Sign in failed")}
+          </p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={!username || !password || mutation.isPending}>
+          {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {setup ? "Create account" : "Sign in"}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
+
+/** The centered card the login, setup and invite pages share. */
+export function AuthCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="w-full max-w-sm rounded-lg border border-border bg-card p-6 shadow-sm">
+        <div className="flex items-center gap-2.5 mb-6">
+          <Activity className="h-5 w-5 text-primary" />
+          <span className="text-sm font-semibold">n8n Dashboard</span>
+        </div>
+        <h1 className="text-lg font-semibold">{title}</h1>
+        {description && <p className="text-sm text-muted-foreground mt-1">{description}</p>}
+        <div className="mt-5">{children}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from "express";
+import { hasRole, type User, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+/** The instance ids the user may see, or null for all of them. */
+export async function visibleInstanceIds(user: User): Promise<string[] | null> {
+  if (user.role === "admin" || user.allInstances) return null;
+  return storage.getGrantedInstanceIds(user.id);
+}
+
+export async function canSeeInstance(user: User, instanceId: string): Promise<boolean> {
+  const visible = await visibleInstanceIds(user);
+  return visible === null || visible.includes(instanceId);
+}
+
+export function requireRole(role: UserRole) {
+  return (req: Request<any>, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+// Where a route takes its instance id from: the :id or :instanceId path
+// parameter, or the instanceId query parameter
+type InstanceIdSource = "id" | "instanceId" | "query";
+
+/** Requires the role and access to the route's instance. Instances the user
+ *  can't see answer 404, like ones that don't exist. A missing instance id,
+ *  or one given more than once (`?instanceId=a&instanceId=b` parses to an
+ *  array), answers 400 rather than reaching the route unchecked. */
+export function requireInstanceRole(role: UserRole, source: InstanceIdSource = "id") {
+  return async (req: Request<any>, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    const instanceId = source === "query" ? req.query.instanceId : req.params[source];
+    if (instanceId === undefined || instanceId === "") {
+      return res.status(400).json({ error: "instanceId query parameter is required" });
+    }
+    if (typeof instanceId !== "string") {
+      return res.status(400).json({ error: "instanceId must be given once" });
+    }
+    try {
+      if (!(await canSeeInstance(req.user, instanceId))) {
+        return res.status(404).json({ error: "Instance not found" });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/** For routes an API token must not reach, like managing the tokens themselves. */
+export function forbidApiTokens(req: Request<any>, res: Response, next: NextFunction) {
+  if (req.apiTokenId) {
+    return res.status(403).json({ error: "Not available to API tokens" });
+  }
+  next();
+}
@@ -0,0 +1,254 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { N8nInstance } from "@shared/schema";
+import {
+  fetchApiExecutions,
+  fetchApiExecutionPayload,
+  parseApiResumePoint,
+  testApiConnection,
+  type ApiResumePoint,
+} from "./api-source";
+
+// A local stand-in for n8n's public API: executions are served newest first,
+// `limit` at a time. Like n8n's own, the page cursor is the last id served,
+// so rows arriving between requests don't shift the pages.
+const API_KEY = "test-key";
+
+interface MockExecution {
+  id: number;
+  workflowId: string;
+  finished: boolean;
+  mode: string;
+  startedAt: string;
+  stoppedAt: string | null;
+  status: string;
+  data: { resultData: Record<string, unknown> };
+}
+
+let executions: MockExecution[] = [];
+let requests: URL[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+function execution(id: number, overrides: Partial<MockExecution> = {}): MockExecution {
+  const startedAt = new Date(Date.UTC(2026, 0, 1) + id * 60_000).toISOString();
+  return {
+    id,
+    workflowId: "wf1",
+    finished: true,
+    mode: "trigger",
+    startedAt,
+    stoppedAt: startedAt,
+    status: "success",
+    data: { resultData: { runData: { id } } },
+    ...overrides,
+  };
+}
+
+function page<T extends { id: number | string }>(items: T[], url: URL) {
+  const limit = Number(url.searchParams.get("limit") ?? 100);
+  const lastId = url.searchParams.get("cursor");
+  const offset = lastId === null ? 0 : items.findIndex((item) => String(item.id) === lastId) + 1;
+  const data = items.slice(offset, offset + limit);
+  const next = offset + limit < items.length ? String(data[data.length - 1].id) : null;
+  return { data, nextCursor: next };
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(url);
+    res.setHeader("Content-Type", "application/json");
+    if (req.headers["x-n8n-api-key"] !== API_KEY) {
+      res.statusCode = 401;
+      return res.end(JSON.stringify({ message: "unauthorized" }));
+    }
+    if (url.pathname === "/api/v1/workflows") {
+      return res.end(JSON.stringify(page([{ id: "wf1", name: "Daily report", nodes: [{}, {}] }], url)));
+    }
+    if (url.pathname === "/api/v1/executions") {
+      const newestFirst = [...executions].sort((a, b) => b.id - a.id).map((exec) =>
+        url.searchParams.get("includeData") === "true" ? exec : { ...exec, data: undefined });
+      return res.end(JSON.stringify(page(newestFirst, url)));
+    }
+    const single = url.pathname.match(/^\/api\/v1\/executions\/(\d+)$/);
+    const found = single && executions.find((exec) => exec.id === Number(single[1]));
+    if (found) return res.end(JSON.stringify(found));
+    res.statusCode = 404;
+    res.end(JSON.stringify({ message: "not found" }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  executions = [];
+  requests = [];
+});
+
+function instance(overrides: Partial<N8nInstance> = {}): N8nInstance {
+  return { n8nBaseUrl: baseUrl, n8nApiKey: API_KEY, storageMode: "full", ...overrides } as N8nInstance;
+}
+
+async function collect(
+  inst: N8nInstance,
+  cursor: string | null,
+  since = new Date(0),
+  resume: ApiResumePoint | null = null,
+) {
+  const pages: Record<string, unknown>[][] = [];
+  const resumePoints: Array<ApiResumePoint | null> = [];
+  const next = await fetchApiExecutions(inst, cursor, since, resume, async (rows, resumeAfter) => {
+    pages.push(rows);
+    resumePoints.push(resumeAfter);
+  });
+  return { pages, rows: pages.flat(), next, resumePoints };
+}
+
+describe("fetchApiExecutions", () => {
+  it("pages through every execution on the first sync and returns the highest id", async () => {
+    executions = Array.from({ length: 600 }, (_, i) => execution(i + 1));
+    const { pages, rows, next } = await collect(instance(), null);
+
+    assert.equal(pages.length, 3);
+    assert.equal(rows.length, 600);
+    assert.equal(next, "600");
+    assert.deepEqual(rows[0], {
+      execution_id: "600",
+      workflow_id: "wf1",
+      workflow_name: "Daily report",
+      status: "success",
+      finished: true,
+      started_at: executions[599].startedAt,
+      finished_at: executions[599].stoppedAt,
+      duration_ms: 0,
+      mode: "trigger",
+      node_count: 2,
+      error_message: null,
+      execution_data: { runData: { id: 600 } },
+      workflow_data: { id: "wf1", name: "Daily report", nodes: [{}, {}] },
+      created_at: executions[599].startedAt,
+    });
+  });
+
+  it("stops at the lookback window on the first sync", async () => {
+    executions = Array.from({ length: 10 }, (_, i) => execution(i + 1));
+    const { rows } = await collect(instance(), null, new Date(executions[6].startedAt));
+    assert.deepEqual(rows.map((row) => row.execution_id), ["10", "9", "8", "7"]);
+  });
+
+  it("only fetches executions from the stored cursor on", async () => {
+    executions = Array.from({ length: 20 }, (_, i) => execution(i + 1));
+    const { rows, next } = await collect(instance(), "18");
+    assert.deepEqual(rows.map((row) => row.execution_id), ["20", "19", "18"]);
+    assert.equal(next, "20");
+  });
+
+  it("keeps the cursor at the oldest unfinished execution so it is fetched again", async () => {
+    executions = [
+      execution(1),
+      execution(2, { finished: false, stoppedAt: null, status: "running" }),
+      execution(3),
+    ];
+    const { rows, next } = await collect(instance(), null);
+    assert.equal(rows.find((row) => row.execution_id === "2")?.status, "running");
+    assert.equal(next, "2");
+  });
+
+  it("keeps the old cursor when nothing new arrived", async () => {
+    executions = [execution(1), execution(2)];
+    const { rows, next } = await collect(instance(), "3");
+    assert.equal(rows.length, 0);
+    assert.equal(next, "3");
+  });
+
+  it("resumes an interrupted sync without fetching the finished pages again", async () => {
+    executions = Array.from({ length: 600 }, (_, i) => execution(i + 1));
+    let saved: ApiResumePoint | null = null;
+    let pagesSeen = 0;
+    await assert.rejects(fetchApiExecutions(instance(), "100", new Date(0), null, async (_rows, resumeAfter) => {
+      if (++pagesSeen === 2) throw new Error("interrupted");
+      saved = resumeAfter;
+    }), /interrupted/);
+    assert.deepEqual(saved, { page: "351", newest: 600, unfinished: null });
+
+    // New executions arrive while the sync is down
+    executions.push(execution(601), execution(602));
+    requests = [];
+    const { rows, next } = await collect(instance(), "100", new Date(0), saved);
+
+    const ids = rows.map((row) => Number(row.execution_id));
+    assert.deepEqual(ids.slice(0, 2), [602, 601]);
+    assert.equal(ids.filter((id) => id <= 600).length, 251);
+    assert.equal(Math.min(...ids.filter((id) => id <= 600)), 100);
+    assert.equal(next, "602");
+    assert.equal(requests.filter((url) => url.pathname === "/api/v1/executions").length, 3);
+  });
+
+  it("saves a resume point after every page but the last", async () => {
+    executions = Array.from({ length: 300 }, (_, i) => execution(i + 1));
+    const { resumePoints } = await collect(instance(), null);
+    assert.deepEqual(resumePoints, [{ page: "51", newest: 300, unfinished: null }, null]);
+    assert.deepEqual(parseApiResumePoint(JSON.stringify(resumePoints[0])), resumePoints[0]);
+    assert.equal(parseApiResumePoint("1234"), null);
+  });
+
+  it("skips run data in metadata mode except for the error message of failed executions", async () => {
+    executions = [
+      execution(1),
+      execution(2, { status: "error", data: { resultData: { error: { message: "Node exploded" } } } }),
+    ];
+    const { rows } = await collect(instance({ storageMode: "metadata" }), null);
+
+    const listCalls = requests.filter((url) => url.pathname === "/api/v1/executions");
+    assert.ok(listCalls.every((url) => !url.searchParams.has("includeData")));
+    assert.deepEqual(requests.filter((url) => url.pathname.startsWith("/api/v1/executions/")).map((url) => url.pathname), [
+      "/api/v1/executions/2",
+    ]);
+    assert.equal(rows.find((row) => row.execution_id === "2")?.error_message, "Node exploded");
+    assert.equal(rows.find((row) => row.execution_id === "1")?.execution_data, null);
+  });
+
+  it("looks up the error messages of at most 25 failed executions per page", async () => {
+    executions = Array.from({ length: 30 }, (_, i) =>
+      execution(i + 1, { status: "error", data: { resultData: { error: { message: `Failure ${i + 1}` } } } }));
+    const { rows } = await collect(instance({ storageMode: "metadata" }), null);
+
+    const lookups = requests.filter((url) => url.pathname.startsWith("/api/v1/executions/"));
+    assert.equal(lookups.length, 25);
+    assert.equal(rows.length, 30);
+    assert.equal(rows.find((row) => row.execution_id === "30")?.error_message, "Failure 30");
+    assert.equal(rows.find((row) => row.execution_id === "1")?.error_message, null);
+  });
+
+  it("fails with the status the API answered", async () => {
+    executions = [execution(1)];
+    await assert.rejects(collect(instance({ n8nApiKey: "wrong" }), null), /returned 401/);
+  });
+});
+
+describe("fetchApiExecutionPayload", () => {
+  it("returns the payload, or null once the execution is gone", async () => {
+    executions = [execution(5)];
+    assert.deepEqual(await fetchApiExecutionPayload(instance(), "5"), {
+      executionData: { runData: { id: 5 } },
+      workflowData: null,
+    });
+    assert.equal(await fetchApiExecutionPayload(instance(), "6"), null);
+  });
+});
+
+describe("testApiConnection", () => {
+  it("reports a rejected API key", async () => {
+    assert.deepEqual(await testApiConnection(instance()), { success: true });
+    const result = await testApiConnection(instance({ n8nApiKey: "wrong" }));
+    assert.equal(result.success, false);
+    assert.match(result.error ?? "", /401/);
+  });
+});
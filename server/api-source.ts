@@ -0,0 +1,297 @@
+import type { N8nInstance } from "@shared/schema";
+
+const PAGE_SIZE = 250; // n8n's maximum page size for the public API
+const REQUEST_TIMEOUT_MS = 30_000;
+// Metadata-only syncs fetch the run data of at most this many failed
+// executions per page, for their error message, this many at a time. The
+// rest show theirs in the on-demand detail view.
+const MAX_ERROR_LOOKUPS_PER_PAGE = 25;
+const ERROR_LOOKUP_CONCURRENCY = 4;
+
+interface ApiPage<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+interface ApiWorkflow {
+  id: string;
+  name: string;
+  nodes?: unknown[];
+  [key: string]: unknown;
+}
+
+interface ApiExecution {
+  id: number | string;
+  finished: boolean;
+  mode: string | null;
+  startedAt: string | null;
+  stoppedAt: string | null;
+  workflowId: string;
+  status?: string | null;
+  data?: { resultData?: Record<string, unknown> } | null;
+  workflowData?: ApiWorkflow | null;
+}
+
+function apiUrl(instance: N8nInstance, path: string, params: Record<string, string> = {}): string {
+  const url = new URL(`${instance.n8nBaseUrl.replace(/\/+$/, "")}/api/v1${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export async function apiGet<T>(instance: N8nInstance, path: string, params: Record<string, string>): Promise<ApiPage<T>> {
+  if (!instance.n8nApiKey) {
+    throw new Error("n8n API key is not configured");
+  }
+
+  const res = await fetch(apiUrl(instance, path, params), {
+    headers: {
+      "X-N8N-API-KEY": instance.n8nApiKey,
+      Accept: "application/json",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`n8n API ${path} returned ${res.status}: ${text || res.statusText}`);
+  }
+
+  return (await res.json()) as ApiPage<T>;
+}
+
+async function fetchWorkflows(instance: N8nInstance): Promise<Map<string, ApiWorkflow>> {
+  const workflows = new Map<string, ApiWorkflow>();
+  let cursor: string | null = null;
+
+  do {
+    const params: Record<string, string> = { limit: String(PAGE_SIZE) };
+    if (cursor) params.cursor = cursor;
+    const page: ApiPage<ApiWorkflow> = await apiGet<ApiWorkflow>(instance, "/workflows", params);
+    for (const wf of page.data) {
+      workflows.set(String(wf.id), wf);
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return workflows;
+}
+
+// Failed executions, whose run data holds the error message
+function isFailed(exec: ApiExecution): boolean {
+  return exec.status === "error" || exec.status === "crashed" || (!exec.finished && exec.stoppedAt != null);
+}
+
+function toRow(exec: ApiExecution, workflows: Map<string, ApiWorkflow>): Record<string, unknown> {
+  const workflow = exec.workflowData ?? workflows.get(String(exec.workflowId)) ?? null;
+  const resultData = exec.data?.resultData ?? null;
+  const error = resultData?.error as Record<string, unknown> | undefined;
+  const errorMessage = error?.message ?? error?.description;
+  const startedAt = exec.startedAt ? new Date(exec.startedAt) : null;
+  const stoppedAt = exec.stoppedAt ? new Date(exec.stoppedAt) : null;
+
+  return {
+    execution_id: String(exec.id),
+    workflow_id: String(exec.workflowId),
+    workflow_name: workflow?.name ?? String(exec.workflowId),
+    status: exec.status ?? (exec.finished ? "success" : stoppedAt ? "error" : "running"),
+    finished: exec.finished,
+    started_at: exec.startedAt,
+    finished_at: exec.stoppedAt,
+    duration_ms: startedAt && stoppedAt ? stoppedAt.getTime() - startedAt.getTime() : null,
+    mode: exec.mode,
+    node_count: Array.isArray(workflow?.nodes) ? workflow.nodes.length : null,
+    error_message: errorMessage != null ? String(errorMessage) : null,
+    execution_data: resultData,
+    workflow_data: workflow,
+    created_at: exec.startedAt ?? exec.stoppedAt ?? new Date().toISOString(),
+  };
+}
+
+/** Run data of each of the executions, or null once one is gone, fetched a
+ *  few at a time. */
+async function fetchRunData(
+  instance: N8nInstance,
+  execs: ApiExecution[],
+): Promise<Map<ApiExecution, Record<string, unknown> | null>> {
+  const runData = new Map<ApiExecution, Record<string, unknown> | null>();
+  let next = 0;
+  const worker = async () => {
+    while (next < execs.length) {
+      const exec = execs[next++];
+      const payload = await fetchApiExecutionPayload(instance, String(exec.id));
+      runData.set(exec, (payload?.executionData as Record<string, unknown> | null | undefined) ?? null);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(ERROR_LOOKUP_CONCURRENCY, execs.length) }, worker));
+  return runData;
+}
+
+/** Where an interrupted sync stopped. The API pages newest first, so a resumed
+ *  sync first fetches what arrived since (down to `newest`), then continues
+ *  from `page`, the API's cursor of the next page. */
+export interface ApiResumePoint {
+  page: string;
+  newest: number;
+  unfinished: number | null;
+}
+
+/** The resume point saved by syncInstance, or null if it isn't one (e.g. left
+ *  by another source type before the instance was switched). */
+export function parseApiResumePoint(value: string): ApiResumePoint | null {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed?.page === "string" && typeof parsed?.newest === "number" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Pages through /api/v1/executions (newest first) until it reaches the stored
+ *  cursor, or executions older than `lookbackSince` on the first sync. Each
+ *  page is handed to `onPage` as it arrives, with the position to save for
+ *  resuming after it (none after the last page); returns the new cursor to
+ *  store in sync_status.sync_cursor. In "metadata" storage mode pages are
+ *  fetched without run data, which is then fetched for a bounded number of
+ *  failed executions per page (see MAX_ERROR_LOOKUPS_PER_PAGE).
+ *
+ *  The cursor is the lowest execution id that was still unfinished on the last
+ *  sync (or the highest id seen, if everything had finished), so executions
+ *  that were running last time are fetched again until they settle. */
+export async function fetchApiExecutions(
+  instance: N8nInstance,
+  cursor: string | null,
+  lookbackSince: Date,
+  resume: ApiResumePoint | null,
+  onPage: (rows: Record<string, unknown>[], resumeAfter: ApiResumePoint | null) => Promise<void>,
+): Promise<string | null> {
+  const workflows = await fetchWorkflows(instance);
+  const stopAtId = cursor != null ? Number(cursor) : null;
+  // Metadata-only instances get the run data of some failed executions alone,
+  // for their error message
+  const includeData = instance.storageMode === "full";
+
+  let maxId: number | null = resume?.newest ?? null;
+  let minUnfinishedId: number | null = resume?.unfinished ?? null;
+
+  // Pages down from `pageCursor` until `isPast` matches an execution
+  const pageDown = async (
+    pageCursor: string | null,
+    isPast: (exec: ApiExecution) => boolean,
+    resumeAfter: (nextCursor: string) => ApiResumePoint | null,
+  ): Promise<void> => {
+    do {
+      const params: Record<string, string> = { limit: String(PAGE_SIZE) };
+      if (includeData) params.includeData = "true";
+      if (pageCursor) params.cursor = pageCursor;
+      const page: ApiPage<ApiExecution> = await apiGet<ApiExecution>(instance, "/executions", params);
+      const execs: ApiExecution[] = [];
+      let reachedEnd = false;
+
+      for (const exec of page.data) {
+        if (isPast(exec)) {
+          reachedEnd = true;
+          break;
+        }
+        const id = Number(exec.id);
+        if (maxId == null || id > maxId) maxId = id;
+        if (!exec.finished && !exec.stoppedAt && (minUnfinishedId == null || id < minUnfinishedId)) {
+          minUnfinishedId = id;
+        }
+        execs.push(exec);
+      }
+
+      const runData = includeData
+        ? new Map<ApiExecution, Record<string, unknown> | null>()
+        : await fetchRunData(instance, execs.filter(isFailed).slice(0, MAX_ERROR_LOOKUPS_PER_PAGE));
+      const rows = execs.map((exec) => {
+        if (!runData.has(exec)) return toRow(exec, workflows);
+        const resultData = runData.get(exec);
+        return toRow({ ...exec, data: resultData ? { resultData } : null }, workflows);
+      });
+
+      pageCursor = reachedEnd ? null : page.nextCursor;
+      if (rows.length > 0) await onPage(rows, pageCursor ? resumeAfter(pageCursor) : null);
+    } while (pageCursor);
+  };
+
+  if (resume) {
+    // Until the gap is closed, resuming must still start from the saved point
+    await pageDown(null, (exec) => Number(exec.id) <= resume.newest, () => resume);
+  }
+  await pageDown(
+    resume?.page ?? null,
+    (exec) => stopAtId != null
+      ? Number(exec.id) < stopAtId
+      : exec.startedAt != null && new Date(exec.startedAt) < lookbackSince,
+    (nextCursor) => ({ page: nextCursor, newest: maxId!, unfinished: minUnfinishedId }),
+  );
+
+  const nextCursor = minUnfinishedId ?? maxId ?? stopAtId;
+  return nextCursor != null ? String(nextCursor) : null;
+}
+
+/** Ids of all executions started at or after `since` (plus any without a
+ *  start time), paged newest first without execution data. */
+export async function fetchApiExecutionIds(instance: N8nInstance, since: Date): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let pageCursor: string | null = null;
+
+  do {
+    const params: Record<string, string> = { limit: String(PAGE_SIZE) };
+    if (pageCursor) params.cursor = pageCursor;
+    const page: ApiPage<ApiExecution> = await apiGet<ApiExecution>(instance, "/executions", params);
+    let reachedEnd = false;
+
+    for (const exec of page.data) {
+      if (exec.startedAt && new Date(exec.startedAt) < since) {
+        reachedEnd = true;
+        break;
+      }
+      ids.add(String(exec.id));
+    }
+
+    if (reachedEnd) break;
+    pageCursor = page.nextCursor;
+  } while (pageCursor);
+
+  return ids;
+}
+
+export async function fetchApiExecutionPayload(
+  instance: N8nInstance,
+  executionId: string,
+): Promise<{ executionData: unknown; workflowData: unknown } | null> {
+  if (!instance.n8nApiKey) {
+    throw new Error("n8n API key is not configured");
+  }
+
+  // Not via apiGet: a 404 here just means the execution is gone
+  const res = await fetch(apiUrl(instance, `/executions/${encodeURIComponent(executionId)}`, { includeData: "true" }), {
+    headers: {
+      "X-N8N-API-KEY": instance.n8nApiKey,
+      Accept: "application/json",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`n8n API /executions/${executionId} returned ${res.status}: ${text || res.statusText}`);
+  }
+  const exec = (await res.json()) as ApiExecution;
+  return { executionData: exec.data?.resultData ?? null, workflowData: exec.workflowData ?? null };
+}
+
+export async function testApiConnection(instance: N8nInstance): Promise<{ success: boolean; error?: string }> {
+  try {
+    await apiGet<ApiWorkflow>(instance, "/workflows", { limit: "1" });
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  apiTokens,
+  apiTokenScopeRoles,
+  hasRole,
+  users,
+  type ApiToken,
+  type ApiTokenInfo,
+  type ApiTokenScope,
+  type CreatedApiToken,
+  type User,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API token
+      apiTokenId?: string;
+    }
+  }
+}
+
+const TOKEN_PREFIX = "n8nd_";
+// Token ids are uuids; anything else can't match and would fail Postgres' cast
+const TOKEN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Shown in the token list; long enough to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+
+function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    scope: token.scope,
+    tokenPrefix: token.tokenPrefix,
+    createdAt: token.createdAt.toISOString(),
+    expiresAt: token.expiresAt.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+}
+
+/** A new token for the user. Only the hash is stored; the token itself is
+ *  returned once. */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scope: ApiTokenScope,
+  expiresInDays: number,
+): Promise<CreatedApiToken> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("hex");
+  const [row] = await db
+    .insert(apiTokens)
+    .values({
+      userId,
+      name,
+      scope,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    })
+    .returning();
+  return { token, info: toApiTokenInfo(row) };
+}
+
+/** Deletes one of the user's tokens. False if there is no such token. */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  if (!TOKEN_ID_PATTERN.test(tokenId)) return false;
+  const deleted = await db
+    .delete(apiTokens)
+    .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId)))
+    .returning({ id: apiTokens.id });
+  return deleted.length > 0;
+}
+
+/** The token's user, with the role lowered to what the scope allows, or null
+ *  for unknown and expired tokens and disabled users. */
+export async function authenticateApiToken(token: string): Promise<{ user: User; tokenId: string } | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+  const [row] = await db
+    .select({ token: apiTokens, user: users })
+    .from(apiTokens)
+    .innerJoin(users, eq(users.id, apiTokens.userId))
+    .where(and(eq(apiTokens.tokenHash, hashApiToken(token)), gt(apiTokens.expiresAt, new Date())));
+  if (!row || row.user.disabledAt) return null;
+
+  const { user, token: apiToken } = row;
+  // Written at most once a minute per token, not on every request
+  db.update(apiTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(and(
+      eq(apiTokens.id, apiToken.id),
+      or(
+        isNull(apiTokens.lastUsedAt),
+        lt(apiTokens.lastUsedAt, sql`now() - interval '1 minute'`),
+      ),
+    ))
+    .catch((err) => console.error("Failed to record API token use:", err));
+
+  const scopeRole = apiTokenScopeRoles[apiToken.scope];
+  const role = hasRole(user.role, scopeRole) ? scopeRole : user.role;
+  return { user: { ...user, role }, tokenId: apiToken.id };
+}
@@ -0,0 +1,75 @@
+import "./test-env";
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { sql, type SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { auditEventsQuerySchema, type RetentionRule } from "@shared/schema";
+import { db } from "./db";
+import { diffRetentionRules, listAuditEvents } from "./audit";
+
+describe("listAuditEvents", () => {
+  const dialect = new PgDialect();
+  let query: { where?: SQL; orderBy: SQL[] } = { orderBy: [] };
+
+  before(() => {
+    mock.method(db, "select", () => ({
+      from: () => ({
+        where: (where?: SQL) => ({
+          orderBy: (...orderBy: SQL[]) => ({
+            limit: async () => {
+              query = { where, orderBy };
+              return [];
+            },
+          }),
+        }),
+      }),
+    }));
+  });
+
+  after(() => mock.restoreAll());
+
+  it("pages back from an event by (createdAt, id)", async () => {
+    const cursor = "6f1c1a9e-3b7a-4c55-9d2e-0d6f5e9b8a10";
+    await listAuditEvents(auditEventsQuerySchema.parse({ before: cursor }));
+    const where = dialect.sqlToQuery(query.where!);
+    assert.match(where.sql, /\("audit_events"\."created_at", "audit_events"\."id"\) < \(\s*SELECT page_end\.created_at, page_end\.id/);
+    assert.deepEqual(where.params, [cursor]);
+    assert.equal(
+      dialect.sqlToQuery(sql.join(query.orderBy, sql`, `)).sql,
+      `"audit_events"."created_at" desc, "audit_events"."id" desc`,
+    );
+  });
+
+  it("only takes an event id as the cursor", () => {
+    assert.equal(auditEventsQuerySchema.safeParse({ before: "2026-01-01T00:00:00Z" }).success, false);
+  });
+});
+
+describe("diffRetentionRules", () => {
+  const rule = (overrides: Partial<RetentionRule>): RetentionRule => ({
+    id: crypto.randomUUID(),
+    instanceId: "inst-1",
+    workflowName: null,
+    status: null,
+    payloadDays: 7,
+    metadataDays: 90,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  it("records both lists when a rule changed", () => {
+    const changes = diffRetentionRules([rule({})], [rule({ payloadDays: 3 }), rule({ status: "error", payloadDays: 30 })]);
+    assert.deepEqual(changes, [{
+      field: "retentionRules",
+      before: [{ workflowName: null, status: null, payloadDays: 7, metadataDays: 90 }],
+      after: [
+        { workflowName: null, status: null, payloadDays: 3, metadataDays: 90 },
+        { workflowName: null, status: "error", payloadDays: 30, metadataDays: 90 },
+      ],
+    }]);
+  });
+
+  it("ignores rules saved again unchanged", () => {
+    assert.deepEqual(diffRetentionRules([rule({ workflowName: "Billing" })], [rule({ workflowName: "Billing" })]), []);
+  });
+});
@@ -0,0 +1,137 @@
+import type { Request } from "express";
+import { and, desc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { redactInstance } from "./instance-store";
+import {
+  auditEvents,
+  type AuditAction,
+  type AuditChange,
+  type AuditEvent,
+  type AuditEventInfo,
+  type AuditEventsQuery,
+  type N8nInstance,
+  type RetentionRule,
+} from "@shared/schema";
+
+// Bookkeeping columns every update touches
+const UNAUDITED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+// Upper bound on one export, so a wide filter can't exhaust memory
+const MAX_EXPORT_EVENTS = 50_000;
+
+interface AuditEventInput {
+  action: AuditAction;
+  // id is null for settings tested before they were saved
+  instance?: { id: string | null; name: string | null } | null;
+  success: boolean;
+  detail?: string | null;
+  changes?: AuditChange[];
+}
+
+/** Records an action of the request's user. A failure to write is logged
+ *  rather than thrown, so it never fails the action itself. */
+export async function recordAuditEvent(req: Request<any>, event: AuditEventInput): Promise<void> {
+  try {
+    await db.insert(auditEvents).values({
+      actorUserId: req.user?.id ?? null,
+      actorUsername: req.user?.username ?? "unknown",
+      apiTokenId: req.apiTokenId ?? null,
+      action: event.action,
+      instanceId: event.instance?.id ?? null,
+      instanceName: event.instance?.name ?? null,
+      success: event.success,
+      detail: event.detail ?? null,
+      changes: event.changes ?? [],
+    });
+  } catch (err) {
+    console.error(`Failed to record audit event ${event.action}:`, err);
+  }
+}
+
+/** The settings that differ between two versions of an instance; null stands
+ *  for the instance not existing (create, delete). Values are compared in the
+ *  clear but recorded redacted, so a changed password shows up as a change
+ *  without revealing either value. */
+export function diffInstances(before: N8nInstance | null, after: N8nInstance | null): AuditChange[] {
+  const redactedBefore = before ? redactInstance(before) : {};
+  const redactedAfter = after ? redactInstance(after) : {};
+  const rawBefore: Record<string, unknown> = before ?? {};
+  const rawAfter: Record<string, unknown> = after ?? {};
+  const fields = Array.from(new Set([...Object.keys(rawBefore), ...Object.keys(rawAfter)]));
+
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    if (JSON.stringify(rawBefore[field] ?? null) === JSON.stringify(rawAfter[field] ?? null)) continue;
+    changes.push({
+      field,
+      before: redactedBefore[field] ?? null,
+      after: redactedAfter[field] ?? null,
+    });
+  }
+  return changes;
+}
+
+/** Retention rules aren't instance columns, so a change to them is recorded
+ *  as one "retentionRules" change holding both lists, or none if equal. */
+export function diffRetentionRules(before: RetentionRule[], after: RetentionRule[]): AuditChange[] {
+  const settings = (rules: RetentionRule[]) => rules.map(({ workflowName, status, payloadDays, metadataDays }) =>
+    ({ workflowName, status, payloadDays, metadataDays }));
+  const [rulesBefore, rulesAfter] = [settings(before), settings(after)];
+  if (JSON.stringify(rulesBefore) === JSON.stringify(rulesAfter)) return [];
+  return [{ field: "retentionRules", before: rulesBefore, after: rulesAfter }];
+}
+
+export function toAuditEventInfo(event: AuditEvent): AuditEventInfo {
+  return { ...event, createdAt: event.createdAt.toISOString() };
+}
+
+/** Newest first, ties on createdAt broken by id so paging with `before`
+ *  neither skips nor repeats events. `limit` defaults to the query's page
+ *  size. */
+export async function listAuditEvents(query: AuditEventsQuery, limit = query.limit): Promise<AuditEvent[]> {
+  const conditions: SQL[] = [];
+  if (query.instanceId) conditions.push(eq(auditEvents.instanceId, query.instanceId));
+  if (query.actorUserId) conditions.push(eq(auditEvents.actorUserId, query.actorUserId));
+  if (query.action) conditions.push(eq(auditEvents.action, query.action));
+  if (query.startDate) conditions.push(gte(auditEvents.createdAt, new Date(query.startDate)));
+  if (query.endDate) conditions.push(lte(auditEvents.createdAt, new Date(query.endDate)));
+  if (query.before) {
+    // Compared in the database, which keeps the microseconds a JS Date drops
+    conditions.push(sql`(${auditEvents.createdAt}, ${auditEvents.id}) < (
+      SELECT page_end.created_at, page_end.id FROM ${auditEvents} page_end WHERE page_end.id = ${query.before}
+    )`);
+  }
+
+  return db
+    .select()
+    .from(auditEvents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+    .limit(limit);
+}
+
+export function listAuditEventsForExport(query: AuditEventsQuery): Promise<AuditEvent[]> {
+  return listAuditEvents(query, MAX_EXPORT_EVENTS);
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per event; the changes column holds the diff as JSON. */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ["time", "actor", "api_token_id", "action", "instance", "instance_id", "success", "detail", "changes"];
+  const rows = events.map((event) => [
+    event.createdAt.toISOString(),
+    event.actorUsername,
+    event.apiTokenId,
+    event.action,
+    event.instanceName,
+    event.instanceId,
+    event.success,
+    event.detail,
+    event.changes.length > 0 ? JSON.stringify(event.changes) : "",
+  ].map(csvField).join(","));
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,152 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { Express, Request } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { and, ne, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { storage } from "./storage";
+import { deriveSecrets } from "./secrets";
+import { userSessions, type User as DashboardUser, type UserInvite, type UserPublic } from "@shared/schema";
+import { log } from "./log";
+
+declare global {
+  namespace Express {
+    interface User extends DashboardUser {}
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_BYTES = 64;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITE_PREFIX = "n8nu_";
+
+/** Stored as `scrypt:<salt>:<key>`, both hex. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_BYTES);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = await scrypt(password, Buffer.from(salt, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Verified against when the username is unknown, so response times don't tell
+// which accounts exist
+const dummyHash = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+export function hashInviteToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function toUserPublic(user: DashboardUser): UserPublic {
+  const { passwordHash, inviteTokenHash, ...pub } = user;
+  return { ...pub, invitePending: Boolean(inviteTokenHash) };
+}
+
+/** The active account with these credentials, or null. Invited users without
+ *  a password and disabled users never match. */
+export async function authenticateCredentials(username: string, password: string): Promise<DashboardUser | null> {
+  const user = await storage.getUserByUsername(username);
+  if (!user?.passwordHash) {
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  const valid = await verifyPassword(password, user.passwordHash);
+  return valid && !user.disabledAt ? user : null;
+}
+
+/** A new one-time invite token for the user, replacing any earlier one. Only
+ *  the hash is stored; the token is shown to the admin once. */
+export async function createInvite(userId: string): Promise<UserInvite | null> {
+  const token = INVITE_PREFIX + crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  const user = await storage.updateUser(userId, {
+    inviteTokenHash: hashInviteToken(token),
+    inviteExpiresAt: expiresAt,
+  });
+  if (!user) return null;
+  return { user: toUserPublic(user), token, expiresAt: expiresAt.toISOString() };
+}
+
+/** Ends the user's sessions, except the one with `exceptSid` if given. */
+export async function destroyUserSessions(userId: string, exceptSid?: string): Promise<void> {
+  const ofUser = sql`${userSessions.sess}->'passport'->>'user' = ${userId}`;
+  await db.delete(userSessions).where(exceptSid ? and(ofUser, ne(userSessions.sid, exceptSid)) : ofUser);
+}
+
+export function logIn(req: Request, user: DashboardUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export function logOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.logout((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/** SESSION_SECRET if set. Otherwise derived from the master key; while a
+ *  rotation has SECRETS_MASTER_KEY_PREVIOUS set, cookies signed with the old
+ *  key stay valid and are re-signed with the new one on their next request.
+ *  Without either, a random secret logs everyone out on restart. */
+function sessionSecrets(): string[] {
+  if (process.env.SESSION_SECRET) return [process.env.SESSION_SECRET];
+  const derived = deriveSecrets("session-cookie");
+  if (derived.length > 0) return derived;
+  log("Neither SESSION_SECRET nor SECRETS_MASTER_KEY is set; sessions end when the server restarts", "auth");
+  return [crypto.randomBytes(32).toString("hex")];
+}
+
+/** Session login for the /api routes. Sessions live in user_sessions and are
+ *  checked against the account on every request, so disabling a user ends
+ *  them. */
+export function setupAuth(app: Express): void {
+  const PgStore = connectPgSimple(session);
+  app.use(
+    "/api",
+    session({
+      store: new PgStore({ pool, tableName: "user_sessions" }),
+      secret: sessionSecrets(),
+      name: "n8n_dashboard.sid",
+      resave: false,
+      saveUninitialized: false,
+      rolling: true,
+      cookie: { httpOnly: true, sameSite: "lax", secure: "auto", maxAge: SESSION_MAX_AGE_MS },
+    }),
+    passport.initialize(),
+    passport.session(),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser((id: string, done) => {
+    storage
+      .getUser(id)
+      .then((user) => done(null, user && !user.disabledAt ? user : false))
+      .catch(done);
+  });
+}
+
+/** Creates the first admin from AUTH_USER/AUTH_PASSWORD, which used to be the
+ *  shared Basic auth pair. Without them the first visitor is asked to set up
+ *  an admin account. */
+export async function ensureBootstrapAdmin(): Promise<void> {
+  if ((await storage.countUsers()) > 0) return;
+  const username = process.env.AUTH_USER;
+  const password = process.env.AUTH_PASSWORD;
+  if (!username || !password) {
+    log("No user accounts yet; the first visitor can create the admin account", "auth");
+    return;
+  }
+  await storage.createUser({ username, passwordHash: await hashPassword(password), role: "admin" });
+  log(`Created admin account "${username}" from AUTH_USER/AUTH_PASSWORD`, "auth");
+}
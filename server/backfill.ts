@@ -0,0 +1,216 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  backfillJobs,
+  type BackfillJob,
+  type BackfillJobInfo,
+  type N8nInstance,
+} from "@shared/schema";
+import { getPoolForInstance } from "./tunnel-manager";
+import { getInstance } from "./instance-store";
+import { fetchHooksExecutionsPage, hooksTableFor } from "./hooks-source";
+import { fetchNativeExecutionsPage } from "./native-source";
+import { upsertExecutionRows } from "./poller";
+import { log } from "./log";
+
+const CHUNK_MS = 24 * 60 * 60 * 1000; // one day per window
+const PAGE_SIZE = 500;
+
+// Jobs being worked on by this process, keyed by job id. Cancellation flips
+// the flag; the runner checks it between pages.
+const activeJobs = new Map<string, { canceled: boolean }>();
+
+export function isBackfillSupported(instance: N8nInstance): boolean {
+  return instance.sourceType === "hooks" || instance.sourceType === "native";
+}
+
+export function toBackfillJobInfo(job: BackfillJob): BackfillJobInfo {
+  return {
+    id: job.id,
+    instanceId: job.instanceId,
+    rangeStart: job.rangeStart.toISOString(),
+    rangeEnd: job.rangeEnd.toISOString(),
+    status: job.status,
+    chunksTotal: job.chunksTotal,
+    chunksDone: job.chunksDone,
+    rowsUpserted: job.rowsUpserted,
+    progress: job.chunksTotal > 0 ? job.chunksDone / job.chunksTotal : 1,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export async function getBackfillJob(jobId: string): Promise<BackfillJob | undefined> {
+  const [job] = await db.select().from(backfillJobs).where(eq(backfillJobs.id, jobId));
+  return job;
+}
+
+export async function listBackfillJobs(instanceId: string, limit = 20): Promise<BackfillJob[]> {
+  return db
+    .select()
+    .from(backfillJobs)
+    .where(eq(backfillJobs.instanceId, instanceId))
+    .orderBy(desc(backfillJobs.createdAt))
+    .limit(limit);
+}
+
+/** The queued or running job for an instance, if any — only one runs at a time. */
+export async function getActiveBackfillJob(instanceId: string): Promise<BackfillJob | undefined> {
+  const [job] = await db
+    .select()
+    .from(backfillJobs)
+    .where(and(
+      eq(backfillJobs.instanceId, instanceId),
+      inArray(backfillJobs.status, ["queued", "running"]),
+    ))
+    .limit(1);
+  return job;
+}
+
+/** Creates a job for [rangeStart, rangeEnd) and starts it in the background.
+ *  Runs independently of the poll cycle, so the regular 60s sync keeps going.
+ *  Null if the instance already has a queued or running job; the unique index
+ *  on active jobs decides, so concurrent requests can't both start one. */
+export async function startBackfill(
+  instance: N8nInstance,
+  rangeStart: Date,
+  rangeEnd: Date,
+): Promise<BackfillJob | null> {
+  const chunksTotal = Math.ceil((rangeEnd.getTime() - rangeStart.getTime()) / CHUNK_MS);
+  const [job] = await db
+    .insert(backfillJobs)
+    .values({ instanceId: instance.id, rangeStart, rangeEnd, chunksTotal })
+    .onConflictDoNothing()
+    .returning();
+  if (!job) return null;
+
+  log(`Queued backfill ${job.id} for "${instance.name}" (${chunksTotal} window(s))`, "backfill");
+  void runBackfillJob(job);
+  return job;
+}
+
+export async function cancelBackfill(jobId: string): Promise<BackfillJob | undefined> {
+  const handle = activeJobs.get(jobId);
+  if (handle) handle.canceled = true;
+
+  const [job] = await db
+    .update(backfillJobs)
+    .set({ status: "canceled", finishedAt: new Date() })
+    .where(and(
+      eq(backfillJobs.id, jobId),
+      inArray(backfillJobs.status, ["queued", "running"]),
+    ))
+    .returning();
+  return job ?? getBackfillJob(jobId);
+}
+
+/** Picks up jobs left queued or running by a previous process, continuing
+ *  from the last completed window. */
+export async function resumeBackfillJobs(): Promise<void> {
+  const jobs = await db
+    .select()
+    .from(backfillJobs)
+    .where(inArray(backfillJobs.status, ["queued", "running"]));
+  for (const job of jobs) {
+    if (activeJobs.has(job.id)) continue;
+    log(`Resuming backfill ${job.id} at window ${job.chunksDone + 1}/${job.chunksTotal}`, "backfill");
+    void runBackfillJob(job);
+  }
+}
+
+async function runBackfillJob(job: BackfillJob): Promise<void> {
+  const handle = { canceled: false };
+  activeJobs.set(job.id, handle);
+  const stillRunning = and(eq(backfillJobs.id, job.id), eq(backfillJobs.status, "running"));
+
+  try {
+    const instance = await getInstance(job.instanceId);
+    if (!instance) return;
+
+    await db
+      .update(backfillJobs)
+      .set({ status: "running", startedAt: job.startedAt ?? new Date() })
+      .where(and(eq(backfillJobs.id, job.id), inArray(backfillJobs.status, ["queued", "running"])));
+
+    let rowsUpserted = job.rowsUpserted;
+    for (let chunk = job.chunksDone; chunk < job.chunksTotal; chunk++) {
+      if (handle.canceled) return;
+
+      const from = new Date(job.rangeStart.getTime() + chunk * CHUNK_MS);
+      const to = new Date(Math.min(from.getTime() + CHUNK_MS, job.rangeEnd.getTime()));
+      rowsUpserted += await backfillWindow(instance, from, to, handle);
+      if (handle.canceled) return;
+
+      await db
+        .update(backfillJobs)
+        .set({ chunksDone: chunk + 1, rowsUpserted })
+        .where(stillRunning);
+    }
+
+    await db
+      .update(backfillJobs)
+      .set({ status: "completed", finishedAt: new Date() })
+      .where(stillRunning);
+    log(`Backfill ${job.id} for "${instance.name}" completed: ${rowsUpserted} records`, "backfill");
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Backfill ${job.id} failed: ${msg}`, "backfill");
+    await db
+      .update(backfillJobs)
+      .set({ status: "failed", error: msg, finishedAt: new Date() })
+      .where(stillRunning)
+      .catch((updateErr) => console.error("Failed to record backfill failure:", updateErr));
+  } finally {
+    activeJobs.delete(job.id);
+  }
+}
+
+/** Copies one [from, to) window from the remote, page by page. */
+async function backfillWindow(
+  instance: N8nInstance,
+  from: Date,
+  to: Date,
+  handle: { canceled: boolean },
+): Promise<number> {
+  const pool = await getPoolForInstance(instance);
+  const until = to.toISOString();
+  let upserted = 0;
+
+  if (instance.sourceType === "native") {
+    let afterId = 0;
+    while (!handle.canceled) {
+      const rows = await fetchNativeExecutionsPage(
+        pool, from.toISOString(), until, afterId, PAGE_SIZE, instance.storageMode === "full",
+      );
+      if (rows.length === 0) break;
+      upserted += await upsertExecutionRows(instance, rows);
+      afterId = Number(rows[rows.length - 1].execution_id);
+      if (rows.length < PAGE_SIZE) break;
+    }
+    return upserted;
+  }
+
+  if (instance.sourceType !== "hooks") {
+    throw new Error(`Backfill is not supported for ${instance.sourceType} sources`);
+  }
+
+  // An empty execution_id sorts before every real one, so the first page
+  // includes rows created exactly at `from`
+  const table = hooksTableFor(instance);
+  let afterAt = from.toISOString();
+  let afterId = "";
+  while (!handle.canceled) {
+    const rows = await fetchHooksExecutionsPage(
+      pool, table, afterAt, afterId, until, PAGE_SIZE, instance.storageMode === "full",
+    );
+    if (rows.length === 0) break;
+    upserted += await upsertExecutionRows(instance, rows);
+    const last = rows[rows.length - 1];
+    afterAt = String(last.keyset_created_at);
+    afterId = String(last.execution_id);
+    if (rows.length < PAGE_SIZE) break;
+  }
+  return upserted;
+}
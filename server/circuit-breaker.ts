@@ -0,0 +1,66 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import { syncStatus, type CircuitState } from "@shared/schema";
+
+const FAILURE_THRESHOLD = 3;
+const BASE_BACKOFF_MS = 60_000; // 1 minute
+const MAX_BACKOFF_MS = 60 * 60_000; // 1 hour
+
+/** Wait before the next attempt once the circuit is open: 1m, 2m, 4m, ... capped at 1h. */
+function backoffDelayMs(consecutiveFailures: number): number {
+  const exponent = Math.max(consecutiveFailures - FAILURE_THRESHOLD, 0);
+  return Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+}
+
+/** Writes a failed sync to sync_status, opening the circuit once the
+ *  threshold is reached (or re-opening it after a failed half-open probe). */
+export async function recordSyncFailure(
+  instanceId: string,
+  msg: string,
+): Promise<{ circuitState: CircuitState; nextRetryAt: Date | null }> {
+  const [current] = await db
+    .select({ consecutiveFailures: syncStatus.consecutiveFailures })
+    .from(syncStatus)
+    .where(eq(syncStatus.instanceId, instanceId));
+
+  const consecutiveFailures = (current?.consecutiveFailures ?? 0) + 1;
+  const circuitState: CircuitState = consecutiveFailures >= FAILURE_THRESHOLD ? "open" : "closed";
+  const nextRetryAt = circuitState === "open"
+    ? new Date(Date.now() + backoffDelayMs(consecutiveFailures))
+    : null;
+
+  const values = {
+    lastSyncSuccess: false,
+    lastSyncError: msg,
+    consecutiveFailures,
+    circuitState,
+    nextRetryAt,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(syncStatus)
+    .values({ instanceId, ...values })
+    .onConflictDoUpdate({ target: syncStatus.instanceId, set: values });
+
+  return { circuitState, nextRetryAt };
+}
+
+/** How long scheduled polls of the instance must still wait; 0 when the
+ *  circuit is closed or its backoff has elapsed. */
+export async function getRetryDelayMs(instanceId: string): Promise<number> {
+  const [status] = await db
+    .select({ circuitState: syncStatus.circuitState, nextRetryAt: syncStatus.nextRetryAt })
+    .from(syncStatus)
+    .where(eq(syncStatus.instanceId, instanceId));
+
+  if (status?.circuitState !== "open" || !status.nextRetryAt) return 0;
+  return Math.max(status.nextRetryAt.getTime() - Date.now(), 0);
+}
+
+/** Lets a single probe through an open circuit whose backoff has elapsed. */
+export async function markHalfOpen(instanceId: string): Promise<void> {
+  await db
+    .update(syncStatus)
+    .set({ circuitState: "half_open", updatedAt: new Date() })
+    .where(and(eq(syncStatus.instanceId, instanceId), eq(syncStatus.circuitState, "open")));
+}
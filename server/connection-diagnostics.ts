@@ -0,0 +1,343 @@
+import ssh2, { type Client as SSHClient } from "ssh2";
+import type net from "net";
+import pg from "pg";
+import type {
+  ConnectionDiagnostics,
+  DiagnosticStep,
+  HostKeyPrompt,
+  N8nInstance,
+} from "@shared/schema";
+import {
+  buildSslConfig,
+  closeSshClients,
+  connectSshChain,
+  forwardOut,
+  loadPrivateKey,
+  sshHopsFor,
+  startLocalForwarder,
+} from "./tunnel-manager";
+import { HostKeyVerificationError } from "./host-keys";
+import { checkHooksTable, hooksTableFor } from "./hooks-source";
+import { NATIVE_REQUIRED_COLUMNS } from "./native-source";
+import { apiGet } from "./api-source";
+
+const LATENCY_SAMPLES = 5;
+const SLOW_LATENCY_MS = 250;
+const COUNT_TIMEOUT_MS = 5000;
+
+interface StepOutcome {
+  status?: "ok" | "warning";
+  detail?: string;
+  hint?: string;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** A fix-it suggestion for a failed step, from the error code or message. */
+function hintFor(stepId: string, err: unknown, instance: N8nInstance): string | undefined {
+  const message = errorMessage(err);
+  const code = (err as { code?: string }).code;
+
+  if (err instanceof HostKeyVerificationError) {
+    return err.prompt.status === "mismatch"
+      ? "The host key changed since it was pinned. Only trust the new one if the change was intentional."
+      : "Compare the fingerprint with `ssh-keygen -lf` on the host, then trust it.";
+  }
+  if (code === "ENOTFOUND") return "The host name does not resolve from the dashboard host.";
+  if (code === "ECONNREFUSED") {
+    return stepId === "db-auth"
+      ? `Nothing accepts connections at ${instance.dbHost}:${instance.dbPort}; check the DB host, port and listen_addresses.`
+      : "The port is closed; check the host and port.";
+  }
+  if (code === "ETIMEDOUT" || /timed out/i.test(message)) {
+    return "No answer in time; check firewalls, security groups or VPN between the two hosts.";
+  }
+
+  switch (stepId) {
+    case "key":
+      if (/ENOENT|no such file/i.test(message)) {
+        return "The key path is read on the dashboard host, not your machine; or paste the key instead.";
+      }
+      if (/passphrase/i.test(message)) return "The key is encrypted; enter its passphrase.";
+      if (/SSH_AUTH_SOCK/.test(message)) return "Start the dashboard with an ssh-agent available, or use a key.";
+      return "Use an OpenSSH, PEM or PuTTY private key.";
+    case "ssh":
+      if (/authentication methods failed/i.test(message)) {
+        return "Check the username, and that the public key is in ~/.ssh/authorized_keys on the host.";
+      }
+      return undefined;
+    case "forward":
+      return "Check the DB host and port as seen from the SSH host, and that sshd allows TCP forwarding (AllowTcpForwarding).";
+    case "db-auth":
+      if (code === "28P01" || code === "28000") return "Check the database user and password, and pg_hba.conf.";
+      if (code === "3D000") return "The database does not exist; check the database name.";
+      if (/SSL|TLS|certificate/i.test(message)) return "Check the TLS mode and CA certificate against the server's SSL setup.";
+      return undefined;
+    case "schema":
+      if (instance.sourceType === "native") {
+        return "The n8n tables were not found; check that this is n8n's database and user, or use the hooks source.";
+      }
+      return /column mapping/i.test(message)
+        ? "Map each listed field to a column or SQL expression of the table, or to none if it is optional."
+        : "Install the n8n hooks (they create n8n_execution_logs), set the table name of your fork, or switch the source to n8n execution tables.";
+    case "api-auth":
+      if (/\b401\b|\b403\b/.test(message)) return "Check the API key and that the public API is enabled in n8n.";
+      if (/\b404\b/.test(message)) return "Check the n8n web UI URL; the API lives under /api/v1.";
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/** Runs the connection checks for an instance, saved or not, one named step
+ *  at a time: credentials, SSH, forwarding, DB login, tables, row count and
+ *  latency (or the API equivalents). Stops at the first failure. */
+export async function runConnectionDiagnostics(instance: N8nInstance): Promise<ConnectionDiagnostics> {
+  const steps: DiagnosticStep[] = [];
+  let failed = false;
+  let hostKey: HostKeyPrompt | undefined;
+
+  const step = async (id: string, label: string, run: () => Promise<StepOutcome | void>) => {
+    if (failed) {
+      steps.push({ id, label, status: "skipped", durationMs: null });
+      return;
+    }
+    const started = performance.now();
+    try {
+      const outcome = (await run()) ?? {};
+      steps.push({
+        id,
+        label,
+        status: outcome.status ?? "ok",
+        durationMs: Math.round(performance.now() - started),
+        detail: outcome.detail,
+        hint: outcome.hint,
+      });
+    } catch (err) {
+      failed = true;
+      if (err instanceof HostKeyVerificationError) hostKey = err.prompt;
+      steps.push({
+        id,
+        label,
+        status: "failed",
+        durationMs: Math.round(performance.now() - started),
+        detail: errorMessage(err),
+        hint: hintFor(id, err, instance),
+      });
+    }
+  };
+  const skip = (id: string, label: string, detail: string) => {
+    steps.push({ id, label, status: "skipped", durationMs: null, detail });
+  };
+
+  if (instance.sourceType === "push") {
+    await step("ingest-token", "Ingest token", async () => {
+      if (instance.ingestTokenHash) return { detail: "A token has been generated" };
+      return {
+        status: "warning",
+        detail: "No ingest token yet",
+        hint: "Save the instance, then generate a token from the instance list.",
+      };
+    });
+    return { success: !failed, steps };
+  }
+
+  if (instance.sourceType === "api") {
+    await runApiSteps(instance, step);
+    return { success: !failed, steps };
+  }
+
+  await runDatabaseSteps(instance, step, skip);
+  return { success: !failed, steps, hostKey };
+}
+
+type StepRunner = (id: string, label: string, run: () => Promise<StepOutcome | void>) => Promise<void>;
+
+async function runApiSteps(instance: N8nInstance, step: StepRunner): Promise<void> {
+  await step("api-auth", "n8n API login", async () => {
+    await apiGet(instance, "/workflows", { limit: "1" });
+    return { detail: instance.n8nBaseUrl };
+  });
+
+  await step("executions", "Executions endpoint", async () => {
+    const page = await apiGet<{ id: string | number }>(instance, "/executions", { limit: "1" });
+    if (page.data.length === 0) {
+      return { status: "warning", detail: "No executions yet", hint: "Run a workflow in n8n, then test again." };
+    }
+    return { detail: `Latest execution #${page.data[0].id}` };
+  });
+
+  await step("latency", "Round-trip latency", async () => {
+    const samples: number[] = [];
+    for (let i = 0; i < LATENCY_SAMPLES; i++) {
+      const started = performance.now();
+      await apiGet(instance, "/workflows", { limit: "1" });
+      samples.push(performance.now() - started);
+    }
+    return latencyOutcome(samples);
+  });
+}
+
+function latencyOutcome(samples: number[]): StepOutcome {
+  const ms = Math.round(median(samples));
+  if (ms > SLOW_LATENCY_MS) {
+    return {
+      status: "warning",
+      detail: `${ms} ms median over ${samples.length} round trips`,
+      hint: "Syncs will work but be slow; consider a longer poll interval or metadata-only storage.",
+    };
+  }
+  return { detail: `${ms} ms median over ${samples.length} round trips` };
+}
+
+async function runDatabaseSteps(
+  instance: N8nInstance,
+  step: StepRunner,
+  skip: (id: string, label: string, detail: string) => void,
+): Promise<void> {
+  const resources: { ssh: SSHClient[]; server?: net.Server; client?: pg.Client } = { ssh: [] };
+  let host = instance.dbHost;
+  let port = instance.dbPort;
+
+  try {
+    if (instance.connectionType === "ssh") {
+      const hops = sshHopsFor(instance);
+
+      await step("key", "Read SSH key", async () => {
+        const details: string[] = [];
+        for (const hop of hops) {
+          if (hop.authMethod === "agent") {
+            if (!process.env.SSH_AUTH_SOCK) {
+              throw new Error(`${hop.host}: SSH_AUTH_SOCK is not set for the dashboard process`);
+            }
+            details.push(`${hop.host}: ssh-agent`);
+          } else if (hop.authMethod === "password") {
+            details.push(`${hop.host}: password`);
+          } else {
+            const parsed = ssh2.utils.parseKey(loadPrivateKey(hop), hop.passphrase || undefined);
+            if (parsed instanceof Error) throw new Error(`${hop.host}: ${parsed.message}`);
+            const key = Array.isArray(parsed) ? parsed[0] : parsed;
+            details.push(`${hop.host}: ${key.type} key`);
+          }
+        }
+        return { detail: details.join(", ") };
+      });
+
+      await step("ssh", "SSH handshake", async () => {
+        resources.ssh = await connectSshChain(instance);
+        return { detail: hops.map((hop) => `${hop.user}@${hop.host}:${hop.port}`).join(" → ") };
+      });
+
+      await step("forward", "Port forward", async () => {
+        const sshClient = resources.ssh[resources.ssh.length - 1];
+        // Open one channel directly so a refused forward fails here, not as a DB error
+        const probe = await forwardOut(sshClient, instance.dbHost, instance.dbPort);
+        probe.destroy();
+        resources.server = await startLocalForwarder(instance, sshClient);
+        host = "127.0.0.1";
+        port = (resources.server.address() as net.AddressInfo).port;
+        return { detail: `${instance.dbHost}:${instance.dbPort} via 127.0.0.1:${port}` };
+      });
+    } else {
+      skip("key", "Read SSH key", "Direct connection");
+      skip("ssh", "SSH handshake", "Direct connection");
+      skip("forward", "Port forward", "Direct connection");
+    }
+
+    await step("db-auth", "Database login", async () => {
+      resources.client = new pg.Client({
+        host,
+        port,
+        database: instance.dbName ?? undefined,
+        user: instance.dbUser ?? undefined,
+        password: instance.dbPassword ?? undefined,
+        ssl: buildSslConfig(instance),
+        connectionTimeoutMillis: 10000,
+      });
+      await resources.client.connect();
+      const version = await resources.client.query("SHOW server_version");
+      return { detail: `${instance.dbUser}@${instance.dbName}, PostgreSQL ${version.rows[0].server_version}` };
+    });
+
+    const hooksTable = instance.sourceType === "hooks" ? hooksTableFor(instance) : null;
+    const mainTable = hooksTable?.name ?? Object.keys(NATIVE_REQUIRED_COLUMNS)[0];
+
+    await step("schema", "Execution table", async () => {
+      if (hooksTable) {
+        await checkHooksTable(resources.client!, hooksTable);
+        const mapped = Object.keys(instance.remoteColumnMap ?? {}).length;
+        return { detail: mapped > 0 ? `${hooksTable.name}, ${mapped} field(s) mapped` : hooksTable.name };
+      }
+
+      const required = NATIVE_REQUIRED_COLUMNS;
+      const result = await resources.client!.query(
+        `SELECT table_name, column_name
+         FROM information_schema.columns
+         WHERE table_schema = ANY(current_schemas(false)) AND table_name = ANY($1)`,
+        [Object.keys(required)],
+      );
+      const found = new Map<string, Set<string>>();
+      for (const row of result.rows as Array<{ table_name: string; column_name: string }>) {
+        if (!found.has(row.table_name)) found.set(row.table_name, new Set());
+        found.get(row.table_name)!.add(row.column_name);
+      }
+      for (const [table, columns] of Object.entries(required)) {
+        const present = found.get(table);
+        if (!present) throw new Error(`Table ${table} not found`);
+        const missing = columns.filter((column) => !present.has(column));
+        if (missing.length > 0) throw new Error(`${table} is missing column(s) ${missing.join(", ")}`);
+      }
+      return { detail: Object.keys(required).join(", ") };
+    });
+
+    await step("count", "Row count", async () => {
+      const client = resources.client!;
+      let rows: number;
+      let estimated = false;
+      try {
+        await client.query(`SET statement_timeout = ${COUNT_TIMEOUT_MS}`);
+        const result = await client.query(`SELECT count(*)::bigint AS n FROM ${mainTable}`);
+        rows = Number(result.rows[0].n);
+      } catch {
+        // Too big to count in time; fall back to the planner's estimate
+        const result = await client.query(
+          `SELECT reltuples::bigint AS n FROM pg_class WHERE oid = to_regclass($1)`,
+          [mainTable],
+        );
+        rows = Math.max(0, Number(result.rows[0]?.n ?? 0));
+        estimated = true;
+      } finally {
+        await client.query("RESET statement_timeout").catch(() => {});
+      }
+      if (rows === 0) {
+        return {
+          status: "warning",
+          detail: `${mainTable} is empty`,
+          hint: "The connection works, but there is nothing to sync until a workflow has run.",
+        };
+      }
+      return { detail: `${estimated ? "~" : ""}${rows.toLocaleString("en-US")} rows in ${mainTable}` };
+    });
+
+    await step("latency", "Round-trip latency", async () => {
+      const samples: number[] = [];
+      for (let i = 0; i < LATENCY_SAMPLES; i++) {
+        const started = performance.now();
+        await resources.client!.query("SELECT 1");
+        samples.push(performance.now() - started);
+      }
+      return latencyOutcome(samples);
+    });
+  } finally {
+    await resources.client?.end().catch(() => {});
+    try { resources.server?.close(); } catch {}
+    closeSshClients(resources.ssh);
+  }
+}
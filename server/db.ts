@@ -6,37 +6,12 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL is required for the local config database");
 }
 
-const pool = new pg.Pool({
+export const pool = new pg.Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
 export const db = drizzle(pool, { schema });
 
-/** Normalize any non-canonical status values in existing rows.
- *  Runs once at startup to fix data ingested before normalizeStatus() was added. */
-export async function normalizeExistingStatuses(): Promise<void> {
-  const result = await pool.query(`
-    UPDATE execution_logs
-    SET status = CASE LOWER(TRIM(status))
-      WHEN 'success' THEN 'success'
-      WHEN 'error'   THEN 'error'
-      WHEN 'crashed'  THEN 'error'
-      WHEN 'failed'   THEN 'error'
-      WHEN 'unknown'  THEN 'error'
-      WHEN 'running'  THEN 'running'
-      WHEN 'new'      THEN 'running'
-      WHEN 'waiting'  THEN 'waiting'
-      WHEN 'canceled'  THEN 'canceled'
-      WHEN 'cancelled' THEN 'canceled'
-      ELSE 'error'
-    END
-    WHERE status NOT IN ('success', 'error', 'running', 'waiting', 'canceled')
-  `);
-  if (result.rowCount && result.rowCount > 0) {
-    console.log(`[db] Normalized ${result.rowCount} rows with non-canonical status values`);
-  }
-}
-
 /** tsvector column + GIN index for fast fulltext search across all fields.
  *  Unlike trigram ILIKE, the @@ operator resolves from the compact GIN index
  *  without decompressing large TOAST JSONB blobs at query time. */
@@ -63,7 +38,8 @@ export async function ensureSearchIndexes(): Promise<void> {
         COALESCE(NEW.workflow_name, '') || ' ' ||
         COALESCE(NEW.error_message, '') || ' ' ||
         COALESCE(NEW.execution_data::text, '') || ' ' ||
-        COALESCE(NEW.workflow_data::text, '')
+        COALESCE(NEW.workflow_data::text, '') || ' ' ||
+        COALESCE(NEW.extra::text, '')
       );
       RETURN NEW;
     END;
@@ -88,7 +64,8 @@ export async function ensureSearchIndexes(): Promise<void> {
       COALESCE(workflow_name, '') || ' ' ||
       COALESCE(error_message, '') || ' ' ||
       COALESCE(execution_data::text, '') || ' ' ||
-      COALESCE(workflow_data::text, '')
+      COALESCE(workflow_data::text, '') || ' ' ||
+      COALESCE(extra::text, '')
     ) WHERE search_tsv IS NULL
   `).catch((err) => console.error("Backfill search_tsv failed:", err));
 }
@@ -0,0 +1,62 @@
+import type { LiveEvent } from "@shared/schema";
+
+type Listener = (event: LiveEvent) => void;
+
+const MAX_IDS_PER_EVENT = 200;
+
+// SSE subscribers per instance id
+const listeners = new Map<string, Set<Listener>>();
+
+export function subscribe(instanceId: string, listener: Listener): () => void {
+  let set = listeners.get(instanceId);
+  if (!set) {
+    set = new Set();
+    listeners.set(instanceId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(instanceId);
+  };
+}
+
+function publish(event: LiveEvent): void {
+  const set = listeners.get(event.instanceId);
+  if (!set) return;
+  for (const listener of Array.from(set)) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("Live event listener failed:", err);
+    }
+  }
+}
+
+/** Announces rows an upsert batch inserted or changed. */
+export function publishExecutions(
+  instanceId: string,
+  rows: Array<{ executionId: string; status: string; inserted: boolean }>,
+): void {
+  if (rows.length === 0 || !listeners.has(instanceId)) return;
+  const listed = rows.slice(0, MAX_IDS_PER_EVENT);
+  publish({
+    type: "executions",
+    instanceId,
+    inserted: listed.filter((r) => r.inserted).map((r) => r.executionId),
+    updated: listed.filter((r) => !r.inserted).map((r) => r.executionId),
+    failed: listed.filter((r) => r.status === "error").map((r) => r.executionId),
+    truncated: rows.length > listed.length,
+  });
+}
+
+/** Tells clients to re-read every execution of the instance, for changes too
+ *  broad to list. */
+export function publishRefresh(instanceId: string): void {
+  publish({ type: "refresh", instanceId });
+}
+
+/** Tells clients to re-read sync status and history for the instance. */
+export function publishSyncStatus(instanceId: string): void {
+  publish({ type: "sync-status", instanceId });
+}
@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import pg from "pg";
+import { columnMappingProblem, hooksColumnMapSchema, type N8nInstance } from "@shared/schema";
+import { checkHooksTable, fetchHooksExecutionsPage, hooksTableFor } from "./hooks-source";
+
+// A pool whose one client records every statement instead of running it
+function recordingPool(failOn?: RegExp) {
+  const statements: Array<{ text: string; params: unknown[] }> = [];
+  let released = 0;
+  const client = {
+    async query(text: string, params: unknown[] = []) {
+      statements.push({ text, params });
+      if (failOn?.test(text)) throw new Error("query failed");
+      return { rows: [] };
+    },
+    release() {
+      released++;
+    },
+  };
+  const pool = Object.assign(Object.create(pg.Pool.prototype), { connect: async () => client }) as pg.Pool;
+  return { pool, statements, released: () => released };
+}
+
+function instance(overrides: Partial<N8nInstance> = {}): N8nInstance {
+  return { remoteTable: "n8n_execution_logs", remoteColumnMap: {}, storeExtraColumns: true, ...overrides } as N8nInstance;
+}
+
+describe("columnMappingProblem", () => {
+  it("accepts expressions that stay inside their parentheses", () => {
+    assert.equal(columnMappingProblem("payload->>'workflowName'"), null);
+    assert.equal(columnMappingProblem("COALESCE(finished_at, (started_at + interval '1 minute'))"), null);
+  });
+
+  it("rejects statement ends, comments and unbalanced parentheses", () => {
+    assert.match(columnMappingProblem("1; DROP TABLE x") ?? "", /';'/);
+    assert.match(columnMappingProblem("status -- rest of the query") ?? "", /comments/);
+    assert.match(columnMappingProblem("status /* */") ?? "", /comments/);
+    assert.match(columnMappingProblem("1) FROM pg_shadow UNION SELECT (1") ?? "", /balanced/);
+    assert.match(columnMappingProblem("lower(status") ?? "", /balanced/);
+  });
+
+  it("is enforced when a column map is saved", () => {
+    const parsed = hooksColumnMapSchema.safeParse({ status: "x) FROM secrets --" });
+    assert.equal(parsed.success, false);
+  });
+});
+
+describe("hooksTableFor", () => {
+  it("quotes plain columns and wraps expressions", () => {
+    const table = hooksTableFor(instance({
+      remoteTable: "audit.runs",
+      remoteColumnMap: { workflow_name: "wf_name", status: "lower(state)", mode: null },
+    }));
+    assert.equal(table.name, '"audit"."runs"');
+    assert.equal(table.fields.workflow_name, 't."wf_name"');
+    assert.equal(table.fields.status, "(lower(state))");
+    assert.equal(table.fields.mode, "NULL");
+    assert.ok(table.mappedColumns.includes("wf_name"));
+    assert.equal(table.payloadFromExpression, false);
+  });
+
+  it("refuses a stored mapping that fails the check", () => {
+    assert.throws(
+      () => hooksTableFor(instance({ remoteColumnMap: { status: "status) FROM t; --" } })),
+      /Column mapping for status is not allowed/,
+    );
+  });
+});
+
+describe("fetchHooksExecutionsPage", () => {
+  const page = (pool: pg.Pool, inst: N8nInstance, includePayload: boolean) =>
+    fetchHooksExecutionsPage(pool, hooksTableFor(inst), "1970-01-01", "", null, 100, includePayload);
+
+  it("reads inside a read-only transaction and releases the client", async () => {
+    const { pool, statements, released } = recordingPool();
+    await page(pool, instance(), true);
+    assert.deepEqual(statements.map((s) => s.text.split(/\s/)[0]), ["BEGIN", "SELECT", "COMMIT"]);
+    assert.equal(statements[0].text, "BEGIN READ ONLY");
+    assert.equal(released(), 1);
+  });
+
+  it("rolls back and releases the client when the read fails", async () => {
+    const { pool, statements, released } = recordingPool(/^SELECT/);
+    await assert.rejects(page(pool, instance(), true), /query failed/);
+    assert.equal(statements[statements.length - 1].text, "ROLLBACK");
+    assert.equal(released(), 1);
+  });
+
+  it("leaves the mapped payload columns out of extra in metadata mode", async () => {
+    const { pool, statements } = recordingPool();
+    await page(pool, instance({ remoteColumnMap: { execution_data: "run_data" } }), false);
+    const select = statements[1];
+    assert.doesNotMatch(select.text, /run_data/);
+    assert.match(select.text, /to_jsonb\(t\) - \$5::text\[\] AS extra/);
+    assert.ok((select.params[4] as string[]).includes("run_data"));
+  });
+
+  it("skips extra in metadata mode when a payload field is an expression", async () => {
+    const { pool, statements } = recordingPool();
+    await page(pool, instance({ remoteColumnMap: { execution_data: "raw->'data'" } }), false);
+    assert.doesNotMatch(statements[1].text, /extra/);
+
+    const full = recordingPool();
+    await page(full.pool, instance({ remoteColumnMap: { execution_data: "raw->'data'" } }), true);
+    assert.match(full.statements[1].text, /AS extra/);
+  });
+});
+
+describe("checkHooksTable", () => {
+  it("runs each check on a single client in its own read-only transaction", async () => {
+    const statements: string[] = [];
+    const client = Object.assign(Object.create(pg.Client.prototype), {
+      async query(text: string) {
+        statements.push(text);
+        return { rows: [] };
+      },
+    }) as pg.Client;
+    await checkHooksTable(client, hooksTableFor(instance()));
+    assert.deepEqual(statements.map((s) => s.split(/\s/)[0]), ["BEGIN", "SELECT", "COMMIT"]);
+  });
+});
@@ -0,0 +1,175 @@
+import pg from "pg";
+import {
+  DEFAULT_REMOTE_TABLE,
+  columnMappingProblem,
+  hooksFields,
+  type HooksField,
+  type N8nInstance,
+} from "@shared/schema";
+
+// The JSONB payload columns, left out of metadata-only reads
+const PAYLOAD_FIELDS: readonly HooksField[] = ["execution_data", "workflow_data"];
+const plainColumnPattern = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Where and how an instance's hooks table is read: the quoted table or view
+ *  name and the SQL for each field, per the instance's column mapping. */
+export interface HooksTable {
+  name: string;
+  fields: Record<HooksField, string>;
+  // Remote columns that fields map to directly, left out of `extra`
+  mappedColumns: string[];
+  storeExtra: boolean;
+  // A payload field is an expression, so the columns it reads can't be left
+  // out of `extra`; metadata-only reads then skip `extra` altogether
+  payloadFromExpression: boolean;
+}
+
+/** Resolves the instance's remote table and column mapping. A mapping that is
+ *  a plain column name is quoted as an identifier; anything else is used as
+ *  an SQL expression, and null reads NULL. Throws for a mapping that fails
+ *  columnMappingProblem, e.g. one saved before that check existed. */
+export function hooksTableFor(instance: N8nInstance): HooksTable {
+  const map = instance.remoteColumnMap ?? {};
+  const fields = {} as Record<HooksField, string>;
+  const mappedColumns: string[] = [];
+  let payloadFromExpression = false;
+  for (const field of hooksFields) {
+    const mapping = map[field] === undefined ? field : map[field];
+    if (mapping === null) {
+      fields[field] = "NULL";
+    } else if (plainColumnPattern.test(mapping)) {
+      fields[field] = `t.${quoteIdentifier(mapping)}`;
+      mappedColumns.push(mapping);
+    } else {
+      const problem = columnMappingProblem(mapping);
+      if (problem) throw new Error(`Column mapping for ${field} is not allowed: ${problem}`);
+      fields[field] = `(${mapping})`;
+      if (PAYLOAD_FIELDS.includes(field)) payloadFromExpression = true;
+    }
+  }
+  const name = (instance.remoteTable || DEFAULT_REMOTE_TABLE).split(".").map(quoteIdentifier).join(".");
+  return { name, fields, mappedColumns, storeExtra: instance.storeExtraColumns, payloadFromExpression };
+}
+
+/** Runs one query in a READ ONLY transaction, so a column mapping can't
+ *  change the remote database whatever it expands to. */
+async function queryReadOnly(
+  db: pg.Pool | pg.Client,
+  text: string,
+  params: unknown[] = [],
+): Promise<pg.QueryResult> {
+  const client = db instanceof pg.Pool ? await db.connect() : db;
+  try {
+    await client.query("BEGIN READ ONLY");
+    const result = await client.query(text, params);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw err;
+  } finally {
+    if (client !== db) (client as pg.PoolClient).release();
+  }
+}
+
+/** The SELECT list for the given fields, aliased to the field names. */
+function selectList(table: HooksTable, fields: readonly HooksField[]): string {
+  return fields.map((field) => `${table.fields[field]} AS ${field}`).join(", ");
+}
+
+/** Reads one keyset page of the hooks table, ordered by (created_at,
+ *  execution_id) and starting after the given position. `until` optionally
+ *  bounds created_at from above (exclusive). created_at::text is returned as
+ *  keyset_created_at so the next bound keeps full microsecond precision.
+ *  Without `includePayload` the JSONB columns are not transferred at all,
+ *  neither as fields nor inside `extra`. */
+export async function fetchHooksExecutionsPage(
+  pool: pg.Pool,
+  table: HooksTable,
+  afterAt: string,
+  afterId: string,
+  until: string | null,
+  limit: number,
+  includePayload = true,
+): Promise<Record<string, unknown>[]> {
+  const fields = includePayload ? hooksFields : hooksFields.filter((field) => !PAYLOAD_FIELDS.includes(field));
+  const createdAt = table.fields.created_at;
+  const executionId = table.fields.execution_id;
+  const params: unknown[] = [afterAt, afterId, until, limit];
+  let extra = "";
+  if (table.storeExtra && (includePayload || !table.payloadFromExpression)) {
+    // to_jsonb of the row alias works for views as well as tables
+    params.push(table.mappedColumns);
+    extra = ", to_jsonb(t) - $5::text[] AS extra";
+  }
+  const result = await queryReadOnly(
+    pool,
+    `SELECT ${selectList(table, fields)}${extra}, ${createdAt}::text AS keyset_created_at
+     FROM ${table.name} AS t
+     WHERE (${createdAt}, ${executionId}) > ($1::timestamptz, $2::text)
+       AND ($3::timestamptz IS NULL OR ${createdAt} < $3::timestamptz)
+     ORDER BY ${createdAt} ASC, ${executionId} ASC
+     LIMIT $4`,
+    params,
+  );
+  return result.rows;
+}
+
+/** Which of the given execution ids still exist in the remote table. */
+export async function fetchExistingHooksExecutionIds(
+  pool: pg.Pool,
+  table: HooksTable,
+  ids: string[],
+): Promise<Set<string>> {
+  const executionId = table.fields.execution_id;
+  const result = await queryReadOnly(
+    pool,
+    `SELECT ${executionId}::text AS id FROM ${table.name} AS t WHERE ${executionId} = ANY($1)`,
+    [ids]
+  );
+  return new Set(result.rows.map((row: { id: string }) => row.id));
+}
+
+export async function fetchHooksExecutionPayload(
+  pool: pg.Pool,
+  table: HooksTable,
+  executionId: string,
+): Promise<{ executionData: unknown; workflowData: unknown } | null> {
+  const result = await queryReadOnly(
+    pool,
+    `SELECT ${table.fields.execution_data} AS execution_data, ${table.fields.workflow_data} AS workflow_data
+     FROM ${table.name} AS t WHERE ${table.fields.execution_id} = $1 LIMIT 1`,
+    [executionId]
+  );
+  if (result.rows.length === 0) return null;
+  return { executionData: result.rows[0].execution_data, workflowData: result.rows[0].workflow_data };
+}
+
+/** Checks that the table exists and every mapped field can be selected from
+ *  it. Throws naming the table, or each field whose mapping fails. */
+export async function checkHooksTable(client: pg.Pool | pg.Client, table: HooksTable): Promise<void> {
+  try {
+    await queryReadOnly(client, `SELECT ${selectList(table, hooksFields)} FROM ${table.name} AS t LIMIT 0`);
+    return;
+  } catch (err) {
+    // 42P01: undefined_table
+    if ((err as { code?: string }).code === "42P01") {
+      throw new Error(`Table or view ${table.name} not found`);
+    }
+  }
+
+  const failures: string[] = [];
+  for (const field of hooksFields) {
+    try {
+      await queryReadOnly(client, `SELECT ${table.fields[field]} AS ${field} FROM ${table.name} AS t LIMIT 0`);
+    } catch (err) {
+      failures.push(`${field} (${table.fields[field]}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  if (failures.length === 0) throw new Error(`Selecting from ${table.name} failed`);
+  throw new Error(`Column mapping failed for ${failures.join("; ")}`);
+}
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { N8nInstance } from "@shared/schema";
+import { findKnownHostKeys, fingerprintHostKey, hostKeyType, parseKnownHosts, withPinnedHostKeys } from "./host-keys";
+
+// Wire-format blob of a made-up key: the type string, then some key bytes
+function keyBlob(type: string, seed: string): Buffer {
+  const name = Buffer.from(type);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(name.length);
+  return Buffer.concat([length, name, crypto.createHash("sha256").update(seed).digest()]);
+}
+
+function hashedHost(name: string): string {
+  const salt = crypto.randomBytes(20);
+  const hash = crypto.createHmac("sha1", salt).update(name).digest();
+  return `|1|${salt.toString("base64")}|${hash.toString("base64")}`;
+}
+
+const bastionKey = keyBlob("ssh-ed25519", "bastion");
+const dbKey = keyBlob("ecdsa-sha2-nistp256", "db");
+const otherKey = keyBlob("ssh-ed25519", "other");
+
+describe("fingerprintHostKey", () => {
+  it("formats the key's SHA-256 like ssh-keygen -lf", () => {
+    const fingerprint = fingerprintHostKey(bastionKey);
+    assert.match(fingerprint, /^SHA256:[A-Za-z0-9+/]{43}$/);
+    assert.equal(fingerprint, `SHA256:${crypto.createHash("sha256").update(bastionKey).digest("base64").replace(/=+$/, "")}`);
+    assert.equal(hostKeyType(dbKey), "ecdsa-sha2-nistp256");
+  });
+});
+
+describe("findKnownHostKeys", () => {
+  const knownHosts = [
+    "# comment",
+    `bastion.example.com,10.0.0.1 ssh-ed25519 ${bastionKey.toString("base64")}`,
+    `${hashedHost("[db.internal]:2222")} ecdsa-sha2-nistp256 ${dbKey.toString("base64")}`,
+    `*.internal,!db.internal ssh-ed25519 ${otherKey.toString("base64")}`,
+    `@revoked bastion.example.com ssh-ed25519 ${otherKey.toString("base64")}`,
+    "not a key line",
+  ].join("\n");
+  const entries = parseKnownHosts(knownHosts);
+
+  it("matches plain host lists", () => {
+    assert.deepEqual(findKnownHostKeys(entries, "10.0.0.1", 22), [fingerprintHostKey(bastionKey)]);
+  });
+
+  it("matches hashed hosts by their [host]:port name", () => {
+    assert.deepEqual(findKnownHostKeys(entries, "db.internal", 2222), [fingerprintHostKey(dbKey)]);
+    assert.deepEqual(findKnownHostKeys(entries, "db.internal", 22), []);
+  });
+
+  it("honours wildcards and negated patterns", () => {
+    assert.deepEqual(findKnownHostKeys(entries, "app.internal", 22), [fingerprintHostKey(otherKey)]);
+  });
+
+  it("ignores revoked keys", () => {
+    assert.ok(!findKnownHostKeys(entries, "bastion.example.com", 22).includes(fingerprintHostKey(otherKey)));
+  });
+});
+
+describe("withPinnedHostKeys", () => {
+  const instance = {
+    sshHostKeys: ["SHA256:host"],
+    sshJumpHosts: [{ host: "bastion", port: 22, user: "jump", authMethod: "agent", hostKeys: [] }],
+  } as unknown as N8nInstance;
+
+  it("pins a jump host by its position", () => {
+    const pinned = withPinnedHostKeys(instance, 0, ["SHA256:bastion"]);
+    assert.deepEqual(pinned.sshHostKeys, ["SHA256:host"]);
+    assert.deepEqual(pinned.sshJumpHosts[0].hostKeys, ["SHA256:bastion"]);
+  });
+
+  it("pins the SSH host as the last hop", () => {
+    const pinned = withPinnedHostKeys(instance, 1, ["SHA256:new"]);
+    assert.deepEqual(pinned.sshHostKeys, ["SHA256:new"]);
+    assert.deepEqual(pinned.sshJumpHosts, instance.sshJumpHosts);
+  });
+});
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import type { HostKeyPrompt, N8nInstance, SshJumpHost } from "@shared/schema";
+
+/** Thrown while connecting when a hop presents a host key that isn't pinned.
+ *  Carries what was presented so test-connection can offer to trust it. */
+export class HostKeyVerificationError extends Error {
+  constructor(readonly prompt: HostKeyPrompt, label: string) {
+    super(prompt.status === "mismatch"
+      ? `${label} presented ${prompt.keyType} host key ${prompt.fingerprint}, which does not match the pinned key; refusing to connect`
+      : `${label} presented an untrusted ${prompt.keyType} host key ${prompt.fingerprint}; confirm it with Test connection`);
+    this.name = "HostKeyVerificationError";
+  }
+}
+
+/** OpenSSH-style "SHA256:…" fingerprint of a public key blob in SSH wire format. */
+export function fingerprintHostKey(blob: Buffer): string {
+  const digest = crypto.createHash("sha256").update(blob).digest("base64");
+  return `SHA256:${digest.replace(/=+$/, "")}`;
+}
+
+/** The key type ("ssh-ed25519", "ecdsa-sha2-nistp256", …) a wire-format blob starts with. */
+export function hostKeyType(blob: Buffer): string {
+  if (blob.length < 4) return "unknown";
+  const length = blob.readUInt32BE(0);
+  return blob.subarray(4, 4 + length).toString("ascii") || "unknown";
+}
+
+interface KnownHostsEntry {
+  // Either the comma-separated host patterns or a hashed (|1|salt|hash) host
+  patterns: string[] | null;
+  hashed: { salt: Buffer; hash: Buffer } | null;
+  fingerprint: string;
+}
+
+/** Parses known_hosts content. @cert-authority and @revoked lines, comments
+ *  and lines that don't parse are skipped. */
+export function parseKnownHosts(content: string): KnownHostsEntry[] {
+  const entries: KnownHostsEntry[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith("@")) continue;
+
+    const [hosts, , keyBase64] = line.split(/\s+/);
+    if (!hosts || !keyBase64) continue;
+    const blob = Buffer.from(keyBase64, "base64");
+    if (blob.length === 0) continue;
+
+    const entry: KnownHostsEntry = { patterns: null, hashed: null, fingerprint: fingerprintHostKey(blob) };
+    if (hosts.startsWith("|1|")) {
+      const [, , salt, hash] = hosts.split("|");
+      if (!salt || !hash) continue;
+      entry.hashed = { salt: Buffer.from(salt, "base64"), hash: Buffer.from(hash, "base64") };
+    } else {
+      entry.patterns = hosts.split(",");
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function entryMatches(entry: KnownHostsEntry, name: string): boolean {
+  if (entry.hashed) {
+    const hash = crypto.createHmac("sha1", entry.hashed.salt).update(name).digest();
+    return hash.length === entry.hashed.hash.length && crypto.timingSafeEqual(hash, entry.hashed.hash);
+  }
+  let matched = false;
+  for (const pattern of entry.patterns ?? []) {
+    const negated = pattern.startsWith("!");
+    if (patternToRegExp(negated ? pattern.slice(1) : pattern).test(name)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/** Fingerprints of every known_hosts key listed for host:port, using
+ *  OpenSSH's "[host]:port" naming for non-default ports. */
+export function findKnownHostKeys(entries: KnownHostsEntry[], host: string, port: number): string[] {
+  const name = port === 22 ? host : `[${host}]:${port}`;
+  const found = entries.filter((entry) => entryMatches(entry, name)).map((entry) => entry.fingerprint);
+  return Array.from(new Set(found));
+}
+
+/** The instance's host key columns with `hostKeys` pinned for one hop of the
+ *  chain (jump hosts first, the SSH host last), ready for updateInstance. */
+export function withPinnedHostKeys(
+  instance: N8nInstance,
+  hop: number,
+  hostKeys: string[],
+): { sshHostKeys: string[]; sshJumpHosts: SshJumpHost[] } {
+  const jumpHosts = instance.sshJumpHosts ?? [];
+  if (hop === jumpHosts.length) {
+    return { sshHostKeys: hostKeys, sshJumpHosts: jumpHosts };
+  }
+  return {
+    sshHostKeys: instance.sshHostKeys ?? [],
+    sshJumpHosts: jumpHosts.map((jumpHost, index) => (index === hop ? { ...jumpHost, hostKeys } : jumpHost)),
+  };
+}
@@ -5,7 +5,16 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 import { closeAllTunnels } from "./tunnel-manager";
 import { startPoller, stopPoller } from "./poller";
-import { ensureSearchIndexes, normalizeExistingStatuses } from "./db";
+import { resumeBackfillJobs } from "./backfill";
+import { startRetentionJob, stopRetentionJob } from "./retention";
+import { ensureSearchIndexes } from "./db";
+import { normalizeExistingStatuses } from "./status-mapping";
+import { reencryptInstanceSecrets } from "./instance-store";
+import { isEncryptionEnabled } from "./secrets";
+import { setupAuth, ensureBootstrapAdmin } from "./auth";
+import { authenticateApiToken } from "./api-tokens";
+import { setupOidc } from "./oidc";
+import { log, requestLogger } from "./log";
 
 const app = express();
 const httpServer = createServer(app);
@@ -16,86 +25,75 @@ declare module "http" {
   }
 }
 
+// Pushed execution batches carry full run data, so only the ingest route takes
+// large bodies; it also keeps the raw body for the signature check. Routes
+// after it see the body as already parsed.
 app.use(
+  "/api/ingest/:instanceId",
   express.json({
+    limit: "25mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
   }),
 );
+app.use(express.json());
 
 app.use(express.urlencoded({ extended: false }));
 
-// Basic auth — only enabled when AUTH_USER and AUTH_PASSWORD are set
-const authUser = process.env.AUTH_USER;
-const authPassword = process.env.AUTH_PASSWORD;
-if (authUser && authPassword) {
-  const expected = "Basic " + Buffer.from(`${authUser}:${authPassword}`).toString("base64");
-  const isDev = process.env.NODE_ENV !== "production";
-  app.use((req, res, next) => {
-    // In dev mode, skip auth for Vite-served paths (module scripts, HMR, deps)
-    if (isDev && (
-      req.path.startsWith("/@") ||
-      req.path.startsWith("/src/") ||
-      req.path.startsWith("/node_modules/") ||
-      req.path === "/vite-hmr"
-    )) {
-      return next();
-    }
-    if (req.headers.authorization === expected) {
-      return next();
-    }
-    res.setHeader("WWW-Authenticate", 'Basic realm="n8n Dashboard"');
-    res.status(401).send("Unauthorized");
-  });
-}
-
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
+setupAuth(app);
+setupOidc(app);
 
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse && !path.includes("/detail")) {
-        const jsonStr = JSON.stringify(capturedJsonResponse);
-        if (jsonStr.length <= 2000) {
-          logLine += ` :: ${jsonStr}`;
-        } else {
-          logLine += ` :: [${jsonStr.length} bytes]`;
-        }
+// Every /api route needs a logged-in user: through the session cookie or a
+// personal API token as Bearer. Passwords are only checked by the login route,
+// which throttles failed attempts.
+app.use("/api", async (req, res, next) => {
+  // Login, setup and invites; push ingestion has its own per-instance token
+  if (req.path.startsWith("/auth/") || req.path.startsWith("/ingest/")) {
+    return next();
+  }
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    try {
+      const authenticated = await authenticateApiToken(header.slice(7));
+      if (!authenticated) {
+        return res.status(401).json({ error: "Invalid or expired API token" });
       }
-
-      log(logLine);
+      req.user = authenticated.user;
+      req.apiTokenId = authenticated.tokenId;
+      return next();
+    } catch (err) {
+      return next(err);
     }
-  });
-
-  next();
+  }
+  res.status(401).json({ error: "Not logged in" });
 });
 
+app.use(requestLogger);
+
 (async () => {
   await registerRoutes(httpServer, app);
+  await ensureBootstrapAdmin();
   await normalizeExistingStatuses();
+  if (!isEncryptionEnabled()) {
+    log("SECRETS_MASTER_KEY is not set; instance credentials are stored in plaintext", "secrets");
+  }
+  // Encrypts credentials saved before encryption existed, and finishes a master key rotation
+  const secrets = await reencryptInstanceSecrets();
+  if (secrets.reencrypted > 0) {
+    log(`Re-encrypted credentials of ${secrets.reencrypted} instance(s)`, "secrets");
+  }
+  for (const failure of secrets.failed) {
+    console.error(`[secrets] Could not decrypt credentials of "${failure.name}": ${failure.error}`);
+  }
   await startPoller();
+  startRetentionJob();
+  resumeBackfillJobs().catch((err) =>
+    console.error("Failed to resume backfill jobs:", err)
+  );
   ensureSearchIndexes().catch((err) =>
     console.error("Failed to create search indexes:", err)
   );
@@ -143,6 +141,7 @@ app.use((req, res, next) => {
   const shutdown = () => {
     log("Shutting down, stopping poller and closing SSH tunnels...");
     stopPoller();
+    stopRetentionJob();
     closeAllTunnels();
     httpServer.close(() => process.exit(0));
   };
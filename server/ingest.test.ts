@@ -0,0 +1,41 @@
+import "./test-env";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { ingestExecutionSchema, type N8nInstance } from "@shared/schema";
+import { generateIngestToken, latestPerExecution, verifyIngestSignature, verifyIngestToken } from "./ingest";
+
+function execution(id: string, status: string) {
+  return ingestExecutionSchema.parse({ execution_id: id, workflow_id: "wf1", workflow_name: "Report", status });
+}
+
+describe("latestPerExecution", () => {
+  it("keeps the last entry for a repeated execution id", () => {
+    const batch = [execution("1", "running"), execution("2", "success"), execution("1", "error")];
+    assert.deepEqual(
+      latestPerExecution(batch).map((e) => [e.execution_id, e.status]),
+      [["2", "success"], ["1", "error"]],
+    );
+  });
+});
+
+describe("ingest authentication", () => {
+  it("accepts only the token whose hash is stored", () => {
+    const { token, hash } = generateIngestToken();
+    const instance = { ingestTokenHash: hash } as N8nInstance;
+    assert.equal(verifyIngestToken(instance, token), true);
+    assert.equal(verifyIngestToken(instance, token + "x"), false);
+    assert.equal(verifyIngestToken(instance, undefined), false);
+    assert.equal(verifyIngestToken({ ingestTokenHash: null } as N8nInstance, token), false);
+  });
+
+  it("checks the HMAC of the raw body when a signing secret is set", () => {
+    const body = Buffer.from(JSON.stringify({ execution_id: 1 }));
+    const instance = { ingestSigningSecret: "s3cret" } as N8nInstance;
+    const signature = crypto.createHmac("sha256", "s3cret").update(body).digest("hex");
+    assert.equal(verifyIngestSignature(instance, body, `sha256=${signature}`), true);
+    assert.equal(verifyIngestSignature(instance, Buffer.from("{}"), `sha256=${signature}`), false);
+    assert.equal(verifyIngestSignature(instance, body, undefined), false);
+    assert.equal(verifyIngestSignature({ ingestSigningSecret: null } as N8nInstance, body, undefined), true);
+  });
+});
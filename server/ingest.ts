@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { syncStatus, type IngestExecution, type N8nInstance } from "@shared/schema";
+import { upsertExecutionRows } from "./poller";
+import { publishSyncStatus } from "./events";
+
+const TOKEN_PREFIX = "n8ni_";
+
+function hashIngestToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/** New random ingest token. Only the hash is stored; the token itself is shown once. */
+export function generateIngestToken(): { token: string; hash: string } {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("hex");
+  return { token, hash: hashIngestToken(token) };
+}
+
+export function verifyIngestToken(instance: N8nInstance, token: string | undefined): boolean {
+  if (!instance.ingestTokenHash || !token) return false;
+  return safeEqual(hashIngestToken(token), instance.ingestTokenHash);
+}
+
+/** Checks an `X-Signature-256: sha256=<hex>` header (HMAC-SHA256 of the raw body).
+ *  Always passes when the instance has no signing secret configured. */
+export function verifyIngestSignature(
+  instance: N8nInstance,
+  rawBody: unknown,
+  header: string | undefined,
+): boolean {
+  if (!instance.ingestSigningSecret) return true;
+  if (!header || !Buffer.isBuffer(rawBody)) return false;
+  const expected = crypto
+    .createHmac("sha256", instance.ingestSigningSecret)
+    .update(rawBody)
+    .digest("hex");
+  return safeEqual(header.replace(/^sha256=/, ""), expected);
+}
+
+/** One entry per execution id, the last one in the batch winning, since an
+ *  upsert can't touch the same row twice. */
+export function latestPerExecution(executions: IngestExecution[]): IngestExecution[] {
+  const byId = new Map<string, IngestExecution>();
+  for (const execution of executions) {
+    byId.delete(execution.execution_id);
+    byId.set(execution.execution_id, execution);
+  }
+  return Array.from(byId.values());
+}
+
+/** Upserts pushed executions through the poller's path and records the push in
+ *  sync_status, so the dashboard's "Synced x ago" indicator reflects it. */
+export async function ingestExecutions(
+  instance: N8nInstance,
+  executions: IngestExecution[],
+): Promise<number> {
+  const instanceId = instance.id;
+  const receivedAt = new Date().toISOString();
+  const rows = latestPerExecution(executions).map((e) => ({ ...e, created_at: e.created_at ?? receivedAt }));
+  const upsertedCount = await upsertExecutionRows(instance, rows);
+
+  await db
+    .insert(syncStatus)
+    .values({
+      instanceId,
+      lastSyncedAt: new Date(),
+      lastSyncSuccess: true,
+      lastSyncError: null,
+      lastSyncRecordCount: rows.length,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: syncStatus.instanceId,
+      set: {
+        lastSyncedAt: new Date(),
+        lastSyncSuccess: true,
+        lastSyncError: null,
+        lastSyncRecordCount: rows.length,
+        updatedAt: new Date(),
+      },
+    });
+  publishSyncStatus(instanceId);
+
+  return upsertedCount;
+}
@@ -1,42 +1,250 @@
-import { eq, sql } from "drizzle-orm";
+import { and, eq, getTableColumns, inArray, is, sql, SQL } from "drizzle-orm";
 import { db } from "./db";
-import { n8nInstances, type N8nInstance, type N8nInstancePublic, type InsertInstance } from "@shared/schema";
+import {
+  n8nInstances,
+  type N8nInstance,
+  type N8nInstancePublic,
+  type InsertInstance,
+  type SshJumpHost,
+} from "@shared/schema";
+import { decryptSecret, encryptSecret, needsReencryption } from "./secrets";
+import { withPinnedHostKeys } from "./host-keys";
+
+// Stored encrypted. Only getInstance decrypts them, for the code that
+// connects; everything returned to the client goes through stripSensitive.
+const SECRET_COLUMNS = [
+  "dbPassword",
+  "n8nApiKey",
+  "ingestSigningSecret",
+  "sshPrivateKey",
+  "sshPassphrase",
+  "sshPassword",
+] as const;
+const JUMP_HOST_SECRETS = ["privateKey", "passphrase", "password"] as const;
+
+/** Applies `transform` to every non-empty credential of an instance row or
+ *  update, including the ones nested in sshJumpHosts. */
+function mapSecrets<T extends Partial<N8nInstance>>(data: T, transform: (value: string) => string): T {
+  const result: Record<string, unknown> = { ...data };
+  for (const column of SECRET_COLUMNS) {
+    const value = result[column];
+    if (typeof value === "string" && value) result[column] = transform(value);
+  }
+  if (Array.isArray(data.sshJumpHosts)) {
+    result.sshJumpHosts = data.sshJumpHosts.map((hop) => {
+      const mapped: Record<string, unknown> = { ...hop };
+      for (const field of JUMP_HOST_SECRETS) {
+        const value = mapped[field];
+        if (typeof value === "string" && value) mapped[field] = transform(value);
+      }
+      return mapped;
+    });
+  }
+  return result as T;
+}
 
 function stripSensitive(instance: N8nInstance): N8nInstancePublic {
-  const { dbPassword, sshPrivateKeyPath, ...pub } = instance;
-  return pub;
+  const {
+    dbPassword,
+    sshPrivateKeyPath,
+    sshPrivateKey,
+    sshPassphrase,
+    sshPassword,
+    sshJumpHosts,
+    n8nApiKey,
+    ingestTokenHash,
+    ingestSigningSecret,
+    ...pub
+  } = instance;
+  return {
+    ...pub,
+    hasSshPrivateKey: Boolean(sshPrivateKey),
+    hasSshPassphrase: Boolean(sshPassphrase),
+    sshJumpHosts: (sshJumpHosts ?? []).map(({ privateKeyPath, privateKey, passphrase, password, ...hop }) => ({
+      ...hop,
+      hasPrivateKeyPath: Boolean(privateKeyPath),
+      hasPrivateKey: Boolean(privateKey),
+      hasPassphrase: Boolean(passphrase),
+      hasPassword: Boolean(password),
+    })),
+  };
+}
+
+const JUMP_HOST_CREDENTIALS = ["privateKeyPath", ...JUMP_HOST_SECRETS] as const;
+
+export const REDACTED = "[redacted]";
+
+/** The instance with every credential stripSensitive drops replaced by
+ *  REDACTED, or left empty when unset, for the audit log. */
+export function redactInstance(instance: N8nInstance): Record<string, unknown> {
+  const redacted: Record<string, unknown> = mapSecrets(instance, () => REDACTED);
+  for (const column of ["sshPrivateKeyPath", "ingestTokenHash"] as const) {
+    if (instance[column]) redacted[column] = REDACTED;
+  }
+  redacted.sshJumpHosts = (redacted.sshJumpHosts as SshJumpHost[] ?? []).map((hop) =>
+    hop.privateKeyPath ? { ...hop, privateKeyPath: REDACTED } : hop);
+  return redacted;
+}
+
+/** The client never sees jump host credentials, so an edited hop list comes
+ *  back without them (null clears one). Carries omitted ones over from the
+ *  stored hop at the same position when it still points at the same host and
+ *  user, and keeps its pinned host keys while host and port are unchanged. */
+function mergeStoredJumpHosts(stored: SshJumpHost[], incoming: unknown): unknown {
+  if (!Array.isArray(incoming)) return incoming;
+  return incoming.map((hop, index) => {
+    const previous = stored[index];
+    if (typeof hop !== "object" || hop === null) return hop;
+    const merged = { ...hop, hostKeys: [] as string[] };
+    if (!previous || hop.host !== previous.host) return merged;
+    if ((hop.port ?? 22) === previous.port) merged.hostKeys = previous.hostKeys ?? [];
+    if (hop.user !== previous.user) return merged;
+    for (const key of JUMP_HOST_CREDENTIALS) {
+      if (merged[key] === undefined || merged[key] === "") merged[key] = previous[key];
+    }
+    return merged;
+  });
 }
 
-export async function listInstances(): Promise<N8nInstancePublic[]> {
-  const rows = await db.select().from(n8nInstances).orderBy(n8nInstances.createdAt);
+/** Prepares a client update of a saved instance: omitted jump host
+ *  credentials are carried over, and a pinned host key is dropped when the
+ *  SSH host it belongs to changes (unless the update pins new ones). A new
+ *  SSH host is never trusted on first use; only this sets the flag, a value
+ *  sent by the client is dropped. */
+export function prepareInstanceUpdate(existing: N8nInstance, body: Record<string, unknown>): Record<string, unknown> {
+  const { sshTrustOnFirstUse: _clientTrust, ...update } = body;
+  if ("sshJumpHosts" in update) {
+    update.sshJumpHosts = mergeStoredJumpHosts(existing.sshJumpHosts, update.sshJumpHosts);
+  }
+  const sshTargetChanged = ("sshHost" in update && update.sshHost !== existing.sshHost) ||
+    ("sshPort" in update && Number(update.sshPort) !== existing.sshPort);
+  if (sshTargetChanged && !("sshHostKeys" in update)) update.sshHostKeys = [];
+  if (sshTargetChanged) update.sshTrustOnFirstUse = false;
+  return update;
+}
+
+/** An unsaved instance built from validated settings, for testing a form
+ *  before it is saved. Column defaults fill in what the settings leave out. */
+export function draftInstance(data: InsertInstance, existing: N8nInstance | null): N8nInstance {
+  const defaults: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(getTableColumns(n8nInstances))) {
+    defaults[key] = column.hasDefault && !is(column.default, SQL) ? column.default : null;
+  }
+  return {
+    ...defaults,
+    ...existing,
+    ...data,
+    id: existing?.id ?? "unsaved",
+    createdAt: existing?.createdAt ?? new Date(),
+    updatedAt: new Date(),
+  } as N8nInstance;
+}
+
+/** All instances, or only those with the given ids (see visibleInstanceIds). */
+export async function listInstances(ids: string[] | null = null): Promise<N8nInstancePublic[]> {
+  if (ids?.length === 0) return [];
+  const rows = await db
+    .select()
+    .from(n8nInstances)
+    .where(ids ? inArray(n8nInstances.id, ids) : undefined)
+    .orderBy(n8nInstances.createdAt);
   return rows.map(stripSensitive);
 }
 
+/** The full instance with decrypted credentials, for connecting to it. */
 export async function getInstance(id: string): Promise<N8nInstance | null> {
   const rows = await db.select().from(n8nInstances).where(eq(n8nInstances.id, id));
-  return rows[0] ?? null;
+  return rows[0] ? mapSecrets(rows[0], decryptSecret) : null;
 }
 
 export async function getInstancePublic(id: string): Promise<N8nInstancePublic | null> {
-  const inst = await getInstance(id);
-  return inst ? stripSensitive(inst) : null;
+  const rows = await db.select().from(n8nInstances).where(eq(n8nInstances.id, id));
+  return rows[0] ? stripSensitive(rows[0]) : null;
 }
 
 export async function createInstance(data: InsertInstance): Promise<N8nInstancePublic> {
-  const rows = await db.insert(n8nInstances).values(data).returning();
+  const rows = await db
+    .insert(n8nInstances)
+    .values({ ...mapSecrets(data, encryptSecret), sshTrustOnFirstUse: false })
+    .returning();
   return stripSensitive(rows[0]);
 }
 
 export async function updateInstance(id: string, data: Partial<InsertInstance>): Promise<N8nInstancePublic | null> {
   const rows = await db
     .update(n8nInstances)
-    .set({ ...data, updatedAt: new Date() })
+    .set({ ...mapSecrets(data, encryptSecret), updatedAt: new Date() })
     .where(eq(n8nInstances.id, id))
     .returning();
   return rows[0] ? stripSensitive(rows[0]) : null;
 }
 
+export async function setIngestTokenHash(id: string, hash: string): Promise<boolean> {
+  const rows = await db
+    .update(n8nInstances)
+    .set({ ingestTokenHash: hash, updatedAt: new Date() })
+    .where(eq(n8nInstances.id, id))
+    .returning({ id: n8nInstances.id });
+  return rows.length > 0;
+}
+
+/** Pins the host keys an instance's first sync after the upgrade was shown
+ *  and stops trusting unknown ones. Skipped if its SSH host was changed
+ *  meanwhile, which already turned trust on first use off. */
+export async function pinFirstUseHostKeys(
+  instance: N8nInstance,
+  learned: Array<{ hop: number; fingerprint: string }>,
+): Promise<void> {
+  let pinned = { sshHostKeys: instance.sshHostKeys, sshJumpHosts: instance.sshJumpHosts };
+  for (const { hop, fingerprint } of learned) {
+    pinned = withPinnedHostKeys({ ...instance, ...pinned }, hop, [fingerprint]);
+  }
+  await db
+    .update(n8nInstances)
+    .set({
+      sshHostKeys: pinned.sshHostKeys,
+      sshJumpHosts: mapSecrets({ sshJumpHosts: pinned.sshJumpHosts }, encryptSecret).sshJumpHosts,
+      sshTrustOnFirstUse: false,
+    })
+    .where(and(eq(n8nInstances.id, instance.id), eq(n8nInstances.sshTrustOnFirstUse, true)));
+}
+
 export async function deleteInstance(id: string): Promise<boolean> {
   const rows = await db.delete(n8nInstances).where(eq(n8nInstances.id, id)).returning();
   return rows.length > 0;
 }
+
+export interface ReencryptResult {
+  reencrypted: number;
+  failed: Array<{ id: string; name: string; error: string }>;
+}
+
+/** Re-encrypts credentials still stored as plaintext or wrapped with
+ *  SECRETS_MASTER_KEY_PREVIOUS under the current master key. Rows that can't
+ *  be decrypted are reported and left untouched. */
+export async function reencryptInstanceSecrets(): Promise<ReencryptResult> {
+  const result: ReencryptResult = { reencrypted: 0, failed: [] };
+  const rows = await db.select().from(n8nInstances);
+
+  for (const row of rows) {
+    let stale = false;
+    mapSecrets(row, (value) => {
+      if (needsReencryption(value)) stale = true;
+      return value;
+    });
+    if (!stale) continue;
+
+    try {
+      const encrypted = mapSecrets(mapSecrets(row, decryptSecret), encryptSecret);
+      const update: Partial<N8nInstance> = { sshJumpHosts: encrypted.sshJumpHosts };
+      for (const column of SECRET_COLUMNS) {
+        update[column] = encrypted[column];
+      }
+      await db.update(n8nInstances).set(update).where(eq(n8nInstances.id, row.id));
+      result.reencrypted++;
+    } catch (err) {
+      result.failed.push({ id: row.id, name: row.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,51 @@
+import type { Request, Response, NextFunction } from "express";
+
+/** The server's log line: time, `[source]` tag, message. */
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+/** Keeps the response body out of the request log, for responses that carry
+ *  a secret shown to the user once, like a new token. */
+export function omitBodyFromLog(res: Response) {
+  res.locals.omitBodyFromLog = true;
+}
+
+/** Logs each /api request with its status, duration and JSON response body. */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse && !path.includes("/detail") && !res.locals.omitBodyFromLog) {
+        const jsonStr = JSON.stringify(capturedJsonResponse);
+        if (jsonStr.length <= 2000) {
+          logLine += ` :: ${jsonStr}`;
+        } else {
+          logLine += ` :: [${jsonStr.length} bytes]`;
+        }
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+}
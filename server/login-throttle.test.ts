@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loginRetryAfterMs, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+
+const MINUTE = 60_000;
+
+describe("login throttle", () => {
+  it("refuses a username after 10 failures until the first one leaves the window", () => {
+    const start = Date.UTC(2026, 0, 1);
+    for (let i = 0; i < 10; i++) {
+      assert.equal(loginRetryAfterMs(`10.0.0.${i}`, "alice", start + i * MINUTE), 0);
+      recordLoginFailure(`10.0.0.${i}`, "alice", start + i * MINUTE);
+    }
+    const now = start + 10 * MINUTE;
+    assert.equal(loginRetryAfterMs("10.0.1.1", "Alice ", now), 5 * MINUTE);
+    assert.equal(loginRetryAfterMs("10.0.1.1", "bob", now), 0);
+    assert.equal(loginRetryAfterMs("10.0.1.1", "alice", start + 15 * MINUTE + 1), 0);
+  });
+
+  it("refuses an IP after 50 failures across usernames", () => {
+    const start = Date.UTC(2026, 1, 1);
+    for (let i = 0; i < 50; i++) recordLoginFailure("192.0.2.7", `user${i}`, start);
+    assert.ok(loginRetryAfterMs("192.0.2.7", "someone-else", start + MINUTE) > 0);
+    assert.equal(loginRetryAfterMs("192.0.2.8", "someone-else", start + MINUTE), 0);
+  });
+
+  it("forgets a username's failures after a successful login", () => {
+    const start = Date.UTC(2026, 2, 1);
+    for (let i = 0; i < 10; i++) recordLoginFailure(`198.51.100.${i}`, "carol", start);
+    assert.ok(loginRetryAfterMs("198.51.100.99", "carol", start) > 0);
+    recordLoginSuccess("carol");
+    assert.equal(loginRetryAfterMs("198.51.100.99", "carol", start), 0);
+  });
+});
@@ -0,0 +1,61 @@
+// Slows down password guessing on /api/auth/login. Failed attempts are
+// counted per client IP and per username over a sliding window; once either
+// count reaches its limit, further attempts are refused until the oldest
+// failure leaves the window. A successful login clears the username's count.
+// The IP limit is generous because clients behind one proxy share an address.
+// Counts live in memory, so they reset when the process restarts.
+
+const WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_IP = 50;
+const MAX_FAILURES_PER_USERNAME = 10;
+// Bounds memory when many distinct keys are tried
+const MAX_TRACKED_KEYS = 10_000;
+
+// Timestamps of recent failures, oldest first
+const failures = new Map<string, number[]>();
+
+function usernameKey(username: string): string {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function keysFor(ip: string, username: string): Array<{ key: string; limit: number }> {
+  return [
+    { key: `ip:${ip}`, limit: MAX_FAILURES_PER_IP },
+    { key: usernameKey(username), limit: MAX_FAILURES_PER_USERNAME },
+  ];
+}
+
+function recent(key: string, now: number): number[] {
+  const times = (failures.get(key) ?? []).filter((at) => at > now - WINDOW_MS);
+  if (times.length > 0) failures.set(key, times);
+  else failures.delete(key);
+  return times;
+}
+
+/** Milliseconds until the next attempt for this IP and username is allowed,
+ *  or 0 if it may go ahead now. */
+export function loginRetryAfterMs(ip: string, username: string, now = Date.now()): number {
+  let wait = 0;
+  for (const { key, limit } of keysFor(ip, username)) {
+    const times = recent(key, now);
+    if (times.length >= limit) {
+      wait = Math.max(wait, times[times.length - limit] + WINDOW_MS - now);
+    }
+  }
+  return wait;
+}
+
+export function recordLoginFailure(ip: string, username: string, now = Date.now()): void {
+  for (const { key } of keysFor(ip, username)) {
+    const times = recent(key, now);
+    if (times.length === 0 && failures.size >= MAX_TRACKED_KEYS) {
+      // Map iteration is in insertion order; drop the longest-tracked key
+      failures.delete(failures.keys().next().value!);
+    }
+    failures.set(key, [...times, now]);
+  }
+}
+
+export function recordLoginSuccess(username: string): void {
+  failures.delete(usernameKey(username));
+}
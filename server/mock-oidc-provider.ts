@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// A stand-in OpenID Connect provider: approves every authorization request
+// as `username` with `groups`, without a login page. Used by
+// `npm run oidc:mock` (server/mock-oidc.ts) and by the single sign-on tests.
+// Keys and codes live in memory; restarting the provider invalidates them.
+
+const CODE_TTL_MS = 60_000;
+
+export interface MockOidcOptions {
+  clientId: string;
+  clientSecret: string;
+  username: string;
+  groups: string[];
+  // Published next to the signing key, e.g. to test key selection
+  extraKeys?: crypto.JsonWebKey[];
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  // Read on every request, so tests can change who logs in
+  options: MockOidcOptions;
+  // Merged over the claims of issued ID tokens, e.g. a wrong nonce or audience
+  idTokenOverrides: Record<string, unknown>;
+  // `header` is merged over the default one, e.g. to drop the kid
+  signIdToken(payload: Record<string, unknown>, header?: Record<string, unknown>): string;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  nonce: string | undefined;
+  codeChallenge: string | undefined;
+  expiresAt: number;
+}
+
+/** Starts the provider on `port` (0 for any free one). The issuer defaults to
+ *  http://localhost:<port>. */
+export async function startMockOidcProvider(
+  options: MockOidcOptions,
+  port = 0,
+  issuer?: string,
+): Promise<MockOidcProvider> {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Set<string>();
+
+  const provider: MockOidcProvider = {
+    issuer: issuer ?? "",
+    options,
+    idTokenOverrides: {},
+    signIdToken(payload, header = {}) {
+      const head = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid, ...header })).toString("base64url");
+      const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+      const signature = crypto.sign("sha256", Buffer.from(`${head}.${body}`), privateKey).toString("base64url");
+      return `${head}.${body}.${signature}`;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+
+  const claims = () => ({
+    sub: `mock|${provider.options.username}`,
+    preferred_username: provider.options.username,
+    email: `${provider.options.username}@example.com`,
+    groups: provider.options.groups,
+  });
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer: provider.issuer,
+      authorization_endpoint: `${provider.issuer}/authorize`,
+      token_endpoint: `${provider.issuer}/token`,
+      jwks_uri: `${provider.issuer}/jwks`,
+      userinfo_endpoint: `${provider.issuer}/userinfo`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({
+      keys: [{ ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" }, ...provider.options.extraKeys ?? []],
+    });
+  });
+
+  app.get("/authorize", (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge } = req.query;
+    if (client_id !== provider.options.clientId || typeof redirect_uri !== "string") {
+      return res.status(400).send("Unknown client_id or missing redirect_uri");
+    }
+    const code = crypto.randomBytes(16).toString("base64url");
+    codes.set(code, {
+      redirectUri: redirect_uri,
+      nonce: typeof nonce === "string" ? nonce : undefined,
+      codeChallenge: typeof code_challenge === "string" ? code_challenge : undefined,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    const url = new URL(redirect_uri);
+    url.searchParams.set("code", code);
+    if (typeof state === "string") url.searchParams.set("state", state);
+    res.redirect(url.toString());
+  });
+
+  app.post("/token", (req, res) => {
+    const [id, secret] = Buffer.from((req.get("authorization") ?? "").replace(/^Basic /, ""), "base64")
+      .toString("utf-8")
+      .split(":")
+      .map(decodeURIComponent);
+    if (id !== provider.options.clientId || secret !== provider.options.clientSecret) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    const verifierHash = crypto.createHash("sha256").update(String(req.body.code_verifier ?? "")).digest("base64url");
+    if (
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.redirectUri !== req.body.redirect_uri ||
+      (pending.codeChallenge && pending.codeChallenge !== verifierHash)
+    ) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = crypto.randomBytes(16).toString("base64url");
+    accessTokens.add(accessToken);
+    res.json({
+      token_type: "Bearer",
+      access_token: accessToken,
+      expires_in: 3600,
+      id_token: provider.signIdToken({
+        iss: provider.issuer,
+        aud: provider.options.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce,
+        ...claims(),
+        ...provider.idTokenOverrides,
+      }),
+    });
+  });
+
+  app.get("/userinfo", (req, res) => {
+    const token = (req.get("authorization") ?? "").replace(/^Bearer /, "");
+    if (!accessTokens.has(token)) return res.status(401).json({ error: "invalid_token" });
+    res.json(claims());
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(port, () => resolve(listening));
+  });
+  provider.issuer ||= `http://localhost:${(server.address() as AddressInfo).port}`;
+  return provider;
+}
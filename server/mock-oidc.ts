@@ -0,0 +1,25 @@
+import { startMockOidcProvider } from "./mock-oidc-provider";
+
+// A stand-in OpenID Connect provider for trying single sign-on locally. It
+// approves every login as MOCK_OIDC_USER with the groups in MOCK_OIDC_GROUPS
+// (comma-separated), without a login page. Run `npm run oidc:mock`, then start
+// the dashboard with
+//   OIDC_DISCOVERY_URL=http://localhost:5400 OIDC_CLIENT_ID=dashboard
+//   OIDC_CLIENT_SECRET=secret OIDC_ROLE_MAP=admins=admin OIDC_PROVIDER_NAME=Mock
+// Keys and codes live in memory; restarting the mock invalidates them.
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 5400);
+
+startMockOidcProvider(
+  {
+    clientId: process.env.MOCK_OIDC_CLIENT_ID || "dashboard",
+    clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET || "secret",
+    username: process.env.MOCK_OIDC_USER || "sso-admin",
+    groups: (process.env.MOCK_OIDC_GROUPS ?? "admins").split(",").map((g) => g.trim()).filter(Boolean),
+  },
+  PORT,
+  process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`,
+).then((provider) => {
+  const { username, groups } = provider.options;
+  console.log(`[mock-oidc] Issuer ${provider.issuer}, signing in everyone as "${username}" with groups [${groups.join(", ")}]`);
+});
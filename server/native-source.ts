@@ -0,0 +1,121 @@
+import type pg from "pg";
+import { parse as parseFlatted } from "flatted";
+
+/** Tables and columns the queries below read, checked by the connection diagnostics. */
+export const NATIVE_REQUIRED_COLUMNS: Record<string, string[]> = {
+  execution_entity: ["id", "workflowId", "status", "finished", "startedAt", "stoppedAt", "mode", "deletedAt"],
+  execution_data: ["executionId", "data", "workflowData"],
+  workflow_entity: ["id", "name"],
+};
+
+// A running execution keeps its startedAt but gains a stoppedAt once it
+// finishes, so match on either to pick up status changes since the last sync.
+// Without $5 (metadata-only reads) the payloads stay on the remote, except the
+// run data of failed executions, which holds their error message.
+const NATIVE_QUERY = `
+  SELECT
+    e.id::text AS execution_id,
+    e."workflowId"::text AS workflow_id,
+    COALESCE(w.name, d."workflowData"->>'name', e."workflowId"::text) AS workflow_name,
+    COALESCE(e.status, CASE WHEN e.finished THEN 'success' ELSE 'error' END) AS status,
+    e.finished,
+    e."startedAt" AS started_at,
+    e."stoppedAt" AS finished_at,
+    CASE
+      WHEN e."startedAt" IS NOT NULL AND e."stoppedAt" IS NOT NULL
+      THEN (EXTRACT(EPOCH FROM (e."stoppedAt" - e."startedAt")) * 1000)::int
+    END AS duration_ms,
+    e.mode,
+    CASE
+      WHEN json_typeof(d."workflowData"->'nodes') = 'array'
+      THEN json_array_length(d."workflowData"->'nodes')
+    END AS node_count,
+    CASE
+      WHEN $5::boolean OR e.status IN ('error', 'crashed') OR (NOT e.finished AND e."stoppedAt" IS NOT NULL)
+      THEN d.data
+    END AS raw_data,
+    CASE WHEN $5::boolean THEN d."workflowData" END AS workflow_data,
+    COALESCE(e."startedAt", e."stoppedAt", NOW()) AS created_at
+  FROM execution_entity e
+  LEFT JOIN execution_data d ON d."executionId" = e.id
+  LEFT JOIN workflow_entity w ON w.id = e."workflowId"
+  WHERE e."deletedAt" IS NULL
+    AND (e."startedAt" >= $1 OR e."stoppedAt" >= $1)
+    AND ($4::timestamptz IS NULL OR e."startedAt" < $4::timestamptz)
+    AND e.id > $2
+  ORDER BY e.id ASC
+  LIMIT $3
+`;
+
+/** n8n serializes IRunExecutionData with `flatted`; we keep only resultData,
+ *  which is what the hooks store as execution_data (runData, lastNodeExecuted, error). */
+function parseRunData(raw: unknown): Record<string, unknown> | null {
+  if (raw == null) return null;
+  try {
+    const parsed = (typeof raw === "string" ? parseFlatted(raw) : raw) as Record<string, unknown>;
+    return (parsed?.resultData as Record<string, unknown>) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function extractErrorMessage(resultData: Record<string, unknown> | null): string | null {
+  const error = resultData?.error as Record<string, unknown> | undefined;
+  if (!error) return null;
+  const message = error.message ?? error.description;
+  return message != null ? String(message) : null;
+}
+
+/** Reads one page of executions straight from n8n's own tables so instances
+ *  without the companion hooks can be onboarded as-is. Pages are keyed on the
+ *  integer execution id; `until` optionally bounds startedAt from above
+ *  (exclusive). Rows come back in the same snake_case shape as the hooks'
+ *  n8n_execution_logs table. Without `includePayload` the payloads are not
+ *  transferred (see NATIVE_QUERY). */
+export async function fetchNativeExecutionsPage(
+  pool: pg.Pool,
+  since: string,
+  until: string | null,
+  afterId: number,
+  limit: number,
+  includePayload = true,
+): Promise<Record<string, unknown>[]> {
+  const result = await pool.query(NATIVE_QUERY, [since, afterId, limit, until, includePayload]);
+
+  return result.rows.map((row: Record<string, unknown>) => {
+    const { raw_data, ...rest } = row;
+    const executionData = parseRunData(raw_data);
+    return {
+      ...rest,
+      error_message: extractErrorMessage(executionData),
+      execution_data: includePayload ? executionData : null,
+    };
+  });
+}
+
+/** Which of the given execution ids still exist in n8n. Soft-deleted
+ *  executions (deletedAt set, awaiting hard deletion) count as gone. */
+export async function fetchExistingNativeExecutionIds(
+  pool: pg.Pool,
+  ids: string[],
+): Promise<Set<string>> {
+  const result = await pool.query(
+    `SELECT id::text AS id FROM execution_entity WHERE id = ANY($1::int[]) AND "deletedAt" IS NULL`,
+    [ids.map(Number).filter(Number.isInteger)]
+  );
+  return new Set(result.rows.map((row: { id: string }) => row.id));
+}
+
+export async function fetchNativeExecutionPayload(
+  pool: pg.Pool,
+  executionId: string,
+): Promise<{ executionData: unknown; workflowData: unknown } | null> {
+  const id = Number(executionId);
+  if (!Number.isInteger(id)) return null;
+  const result = await pool.query(
+    `SELECT data, "workflowData" AS workflow_data FROM execution_data WHERE "executionId" = $1`,
+    [id]
+  );
+  if (result.rows.length === 0) return null;
+  return { executionData: parseRunData(result.rows[0].data), workflowData: result.rows[0].workflow_data };
+}
@@ -0,0 +1,173 @@
+import "./test-env";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import session from "express-session";
+import passport from "passport";
+import type { InsertUser, User } from "@shared/schema";
+import { storage } from "./storage";
+import { startMockOidcProvider, type MockOidcProvider } from "./mock-oidc-provider";
+
+// oidc.ts reads its configuration at load time, so it is imported once the
+// mock provider's address is known
+type Oidc = typeof import("./oidc");
+let oidc: Oidc;
+let provider: MockOidcProvider;
+let server: Server;
+let baseUrl: string;
+let created: InsertUser[] = [];
+
+before(async () => {
+  // An EC key published next to the signing key, which must never check an
+  // RS256 signature
+  const decoy = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" }).publicKey.export({ format: "jwk" });
+  provider = await startMockOidcProvider({
+    clientId: "dashboard",
+    clientSecret: "secret",
+    username: "ada",
+    groups: [],
+    extraKeys: [{ ...decoy, kid: "decoy", use: "sig" }],
+  });
+  process.env.OIDC_DISCOVERY_URL = provider.issuer;
+  process.env.OIDC_CLIENT_ID = "dashboard";
+  process.env.OIDC_CLIENT_SECRET = "secret";
+  process.env.OIDC_ROLE_MAP = "n8n-admins=admin,n8n-ops=operator,engineering=viewer";
+  oidc = await import("./oidc");
+
+  mock.method(storage, "getUserByOidcIdentity", async () => undefined);
+  mock.method(storage, "getUserByUsername", async () => undefined);
+  mock.method(storage, "createUser", async (user: InsertUser) => {
+    created.push(user);
+    return { id: `user-${created.length}`, disabledAt: null, ...user } as User;
+  });
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  const app = express();
+  app.use(session({ secret: "test", resave: false, saveUninitialized: false }));
+  app.use(passport.initialize(), passport.session());
+  oidc.setupOidc(app);
+  server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  mock.restoreAll();
+  server.close();
+  await provider.close();
+});
+
+beforeEach(() => {
+  created = [];
+  provider.options.groups = ["n8n-ops"];
+  provider.idTokenOverrides = {};
+});
+
+/** Runs the browser side of a login: dashboard, provider, and back. Returns
+ *  where the callback redirected to. */
+async function login(tamperState = false): Promise<string> {
+  const start = await fetch(`${baseUrl}/api/auth/oidc/login?returnTo=/executions`, { redirect: "manual" });
+  const cookie = start.headers.get("set-cookie")!.split(";")[0];
+  const authorize = await fetch(start.headers.get("location")!, { redirect: "manual" });
+  const callback = new URL(authorize.headers.get("location")!);
+  if (tamperState) callback.searchParams.set("state", "forged");
+  const done = await fetch(callback, { redirect: "manual", headers: { cookie } });
+  return done.headers.get("location")!;
+}
+
+function ssoError(location: string): string | null {
+  return new URL(location, baseUrl).searchParams.get("sso_error");
+}
+
+describe("single sign-on against the mock provider", () => {
+  it("creates the account with the role of its groups and returns to the page", async () => {
+    assert.equal(await login(), "/executions");
+    assert.equal(created.length, 1);
+    assert.equal(created[0].username, "ada");
+    assert.equal(created[0].role, "operator");
+    assert.equal(created[0].oidcIssuer, provider.issuer);
+  });
+
+  it("refuses users in no mapped group", async () => {
+    provider.options.groups = ["contractors"];
+    assert.match(ssoError(await login()) ?? "", /not in a group that has access/);
+    assert.equal(created.length, 0);
+  });
+
+  it("refuses a callback whose state doesn't match the session", async () => {
+    assert.match(ssoError(await login(true)) ?? "", /login link expired/);
+    assert.equal(created.length, 0);
+  });
+
+  for (const [claim, value] of [["nonce", "replayed"], ["aud", "another-client"], ["iss", "https://evil.example"]] as const) {
+    it(`refuses an ID token with the wrong ${claim}`, async () => {
+      provider.idTokenOverrides = { [claim]: value };
+      assert.equal(ssoError(await login()), "Single sign-on failed");
+      assert.equal(created.length, 0);
+    });
+  }
+});
+
+describe("verifyIdToken", () => {
+  const now = () => Math.floor(Date.now() / 1000);
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: provider.issuer, aud: "dashboard", sub: "mock|ada", exp: now() + 300, nonce: "n-1", ...overrides,
+  });
+  const verify = async (token: string) => {
+    const meta = await (await fetch(`${provider.issuer}/.well-known/openid-configuration`)).json();
+    return oidc.verifyIdToken({ clientId: "dashboard" }, meta, token, "n-1");
+  };
+
+  it("returns the claims of a valid token", async () => {
+    assert.equal((await verify(provider.signIdToken(claims({ aud: ["other", "dashboard"] })))).sub, "mock|ada");
+  });
+
+  it("names what is wrong with a rejected token", async () => {
+    await assert.rejects(verify(provider.signIdToken(claims({ nonce: "n-2" }))), /nonce does not match/);
+    await assert.rejects(verify(provider.signIdToken(claims({ iss: "https://evil.example" }))), /issuer/);
+    await assert.rejects(verify(provider.signIdToken(claims({ aud: "another-client" }))), /another client/);
+    await assert.rejects(verify(provider.signIdToken(claims({ exp: now() - 3600 }))), /expired/);
+    await assert.rejects(verify(provider.signIdToken(claims({ sub: "" }))), /no subject/);
+  });
+
+  it("requires the kid to pick one of several keys", async () => {
+    await assert.rejects(verify(provider.signIdToken(claims(), { kid: undefined })), /names no signing key/);
+  });
+
+  it("only checks a token against a key made for its algorithm", async () => {
+    await assert.rejects(verify(provider.signIdToken(claims(), { alg: "ES256" })), /No ES256 signing key/);
+    await assert.rejects(verify(provider.signIdToken(claims(), { kid: "decoy" })), /No RS256 signing key "decoy"/);
+  });
+
+  it("rejects altered and unsigned tokens", async () => {
+    const [header, , signature] = provider.signIdToken(claims()).split(".");
+    const forged = Buffer.from(JSON.stringify(claims({ sub: "mock|admin" }))).toString("base64url");
+    await assert.rejects(verify(`${header}.${forged}.${signature}`), /signature is invalid/);
+    const none = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+    await assert.rejects(verify(`${none}.${forged}.`), /not signed/);
+  });
+});
+
+describe("roleForGroups", () => {
+  const cfg = {
+    roleMap: [
+      { group: "n8n-admins", role: "admin" as const },
+      { group: "n8n-ops", role: "operator" as const },
+      { group: "engineering", role: "viewer" as const },
+    ],
+    defaultRole: null,
+  };
+
+  it("picks the highest role any group maps to", () => {
+    assert.equal(oidc.roleForGroups(cfg, ["engineering", "n8n-ops"]), "operator");
+    assert.equal(oidc.roleForGroups(cfg, ["n8n-admins", "engineering"]), "admin");
+  });
+
+  it("falls back to the default role, or none", () => {
+    assert.equal(oidc.roleForGroups(cfg, ["contractors"]), null);
+    assert.equal(oidc.roleForGroups({ ...cfg, defaultRole: "viewer" }, ["contractors"]), "viewer");
+  });
+});
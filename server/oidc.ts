@@ -0,0 +1,366 @@
+import crypto from "crypto";
+import type { Express, Request, Response } from "express";
+import { hasRole, userRoles, type User, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { logIn } from "./auth";
+import { log } from "./log";
+
+// OpenID Connect single sign-on: authorization code flow with PKCE against
+// the provider at OIDC_DISCOVERY_URL. Enabled when OIDC_DISCOVERY_URL,
+// OIDC_CLIENT_ID and OIDC_CLIENT_SECRET are set; the redirect URI to register
+// is <dashboard>/api/auth/oidc/callback (or OIDC_REDIRECT_URL).
+//
+// Accounts are created on first login and keyed by issuer and subject. The
+// role follows the groups claim on every login, through OIDC_ROLE_MAP, e.g.
+//   OIDC_ROLE_MAP="n8n-admins=admin,n8n-ops=operator,engineering=viewer"
+// The highest matching role wins; without a match OIDC_DEFAULT_ROLE applies,
+// or the login is refused when that is unset.
+//
+// `npm run oidc:mock` starts a local provider to try this against.
+
+declare module "express-session" {
+  interface SessionData {
+    // Between the redirect to the provider and the callback
+    oidc?: { state: string; nonce: string; codeVerifier: string; returnTo: string };
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Clock skew tolerated on exp/iat
+const CLOCK_TOLERANCE_SECONDS = 60;
+// Unknown key ids refetch the JWKS, but not more often than this
+const JWKS_REFETCH_MS = 60_000;
+
+interface OidcConfig {
+  discoveryUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUrl: string | null;
+  scopes: string;
+  groupsClaim: string;
+  usernameClaim: string;
+  roleMap: Array<{ group: string; role: UserRole }>;
+  defaultRole: UserRole | null;
+  providerName: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+type Claims = Record<string, unknown>;
+
+/** Failed logins with a message that is safe to show on the login page. */
+export class OidcLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+function parseRole(name: string, value: string): UserRole {
+  const role = value.trim() as UserRole;
+  if (!userRoles.includes(role)) {
+    throw new Error(`${name}: unknown role "${value}", expected one of ${userRoles.join(", ")}`);
+  }
+  return role;
+}
+
+function readConfig(): OidcConfig | null {
+  const { OIDC_DISCOVERY_URL, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env;
+  if (!OIDC_DISCOVERY_URL || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) return null;
+
+  const roleMap = (process.env.OIDC_ROLE_MAP ?? "")
+    .split(",")
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const separator = entry.lastIndexOf("=");
+      if (separator <= 0) throw new Error(`OIDC_ROLE_MAP: expected group=role, got "${entry}"`);
+      return { group: entry.slice(0, separator).trim(), role: parseRole("OIDC_ROLE_MAP", entry.slice(separator + 1)) };
+    });
+
+  return {
+    discoveryUrl: OIDC_DISCOVERY_URL.includes("/.well-known/")
+      ? OIDC_DISCOVERY_URL
+      : `${OIDC_DISCOVERY_URL.replace(/\/+$/, "")}/.well-known/openid-configuration`,
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET,
+    redirectUrl: process.env.OIDC_REDIRECT_URL || null,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || "groups",
+    usernameClaim: process.env.OIDC_USERNAME_CLAIM || "preferred_username",
+    roleMap,
+    defaultRole: process.env.OIDC_DEFAULT_ROLE ? parseRole("OIDC_DEFAULT_ROLE", process.env.OIDC_DEFAULT_ROLE) : null,
+    providerName: process.env.OIDC_PROVIDER_NAME || "single sign-on",
+  };
+}
+
+const config = readConfig();
+
+/** The provider's display name when single sign-on is configured, else null. */
+export function ssoProviderName(): string | null {
+  return config?.providerName ?? null;
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`${url} returned ${res.status}: ${text.slice(0, 500) || res.statusText}`);
+  }
+  return (await res.json()) as T;
+}
+
+let metadata: Promise<ProviderMetadata> | null = null;
+
+function getMetadata(cfg: OidcConfig): Promise<ProviderMetadata> {
+  if (!metadata) {
+    metadata = fetchJson<ProviderMetadata>(cfg.discoveryUrl).catch((err) => {
+      // Retry discovery on the next login instead of caching the failure
+      metadata = null;
+      throw err;
+    });
+  }
+  return metadata;
+}
+
+let jwks: { keys: crypto.JsonWebKey[]; fetchedAt: number } | null = null;
+
+/** Whether a JWKS key may check a signature made with `alg`: its type must
+ *  fit the algorithm, and so must its own alg if it names one. */
+function keyFitsAlgorithm(key: crypto.JsonWebKey, alg: string): boolean {
+  const kty = alg === "EdDSA" ? "OKP" : { RS: "RSA", PS: "RSA", ES: "EC" }[alg.slice(0, 2)];
+  return key.kty === kty && (!key.alg || key.alg === alg) && key.use !== "enc";
+}
+
+/** The key the token's header names. A token without a kid is only checked
+ *  against a JWKS of one key, never tried against several. */
+async function getSigningKey(meta: ProviderMetadata, alg: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = () => {
+    const keys = jwks?.keys ?? [];
+    if (!kid && keys.length > 1) return undefined;
+    return keys.find((key) => (!kid || key.kid === kid) && keyFitsAlgorithm(key, alg));
+  };
+  if (!find() && (!jwks || Date.now() - jwks.fetchedAt > JWKS_REFETCH_MS)) {
+    const body = await fetchJson<{ keys: crypto.JsonWebKey[] }>(meta.jwks_uri);
+    jwks = { keys: body.keys ?? [], fetchedAt: Date.now() };
+  }
+  const jwk = find();
+  if (!jwk && !kid && jwks && jwks.keys.length > 1) {
+    throw new Error("ID token names no signing key and the provider's JWKS has several");
+  }
+  if (!jwk) throw new Error(`No ${alg} signing key${kid ? ` "${kid}"` : ""} in the provider's JWKS`);
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+}
+
+function verifySignature(alg: string, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean {
+  const hash = `sha${alg.slice(2)}`;
+  switch (alg) {
+    case "RS256":
+    case "RS384":
+    case "RS512":
+      return crypto.verify(hash, data, key, signature);
+    case "PS256":
+    case "PS384":
+    case "PS512":
+      return crypto.verify(hash, data, {
+        key,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      }, signature);
+    case "ES256":
+    case "ES384":
+    case "ES512":
+      return crypto.verify(hash, data, { key, dsaEncoding: "ieee-p1363" }, signature);
+    case "EdDSA":
+      return crypto.verify(null, data, key, signature);
+    default:
+      throw new Error(`Unsupported ID token algorithm ${alg}`);
+  }
+}
+
+/** Checks the ID token's signature against the provider's JWKS and its
+ *  issuer, audience, expiry and nonce. Returns the claims. */
+export async function verifyIdToken(
+  cfg: Pick<OidcConfig, "clientId">,
+  meta: ProviderMetadata,
+  idToken: string,
+  nonce: string,
+): Promise<Claims> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("ID token is not a JWT");
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = JSON.parse(Buffer.from(headerPart, "base64url").toString("utf-8")) as { alg?: string; kid?: string };
+  if (!header.alg || header.alg === "none") throw new Error("ID token is not signed");
+
+  const key = await getSigningKey(meta, header.alg, header.kid);
+  const signed = Buffer.from(`${headerPart}.${payloadPart}`);
+  if (!verifySignature(header.alg, key, signed, Buffer.from(signaturePart, "base64url"))) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  const claims = JSON.parse(Buffer.from(payloadPart, "base64url").toString("utf-8")) as Claims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== meta.issuer) throw new Error(`ID token issuer ${String(claims.iss)} is not ${meta.issuer}`);
+  if (!audiences.includes(cfg.clientId)) throw new Error("ID token was issued for another client");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_TOLERANCE_SECONDS < now) throw new Error("ID token has expired");
+  if (claims.nonce !== nonce) throw new Error("ID token nonce does not match");
+  if (typeof claims.sub !== "string" || !claims.sub) throw new Error("ID token has no subject");
+  return claims;
+}
+
+/** Group names from the configured claim; a single string counts as one group. */
+function groupsOf(cfg: OidcConfig, claims: Claims): string[] {
+  const value = claims[cfg.groupsClaim];
+  if (Array.isArray(value)) return value.filter((group): group is string => typeof group === "string");
+  return typeof value === "string" ? [value] : [];
+}
+
+/** The highest role any of the groups maps to, or the default role. */
+export function roleForGroups(cfg: Pick<OidcConfig, "roleMap" | "defaultRole">, groups: string[]): UserRole | null {
+  let role: UserRole | null = null;
+  for (const entry of cfg.roleMap) {
+    if (groups.includes(entry.group) && (!role || hasRole(entry.role, role))) role = entry.role;
+  }
+  return role ?? cfg.defaultRole;
+}
+
+function redirectUrlFor(cfg: OidcConfig, req: Request): string {
+  return cfg.redirectUrl ?? `${req.protocol}://${req.get("host")}/api/auth/oidc/callback`;
+}
+
+/** Only same-site paths, so the callback can't be used as an open redirect. */
+function safeReturnTo(value: unknown): string {
+  return typeof value === "string" && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
+
+/** Finds the account for the identity, creating it on first login, and sets
+ *  the role from the groups. */
+async function upsertOidcUser(cfg: OidcConfig, issuer: string, claims: Claims): Promise<User> {
+  const subject = claims.sub as string;
+  const groups = groupsOf(cfg, claims);
+  const role = roleForGroups(cfg, groups);
+  if (!role) {
+    throw new OidcLoginError("Your account is not in a group that has access to this dashboard");
+  }
+
+  const existing = await storage.getUserByOidcIdentity(issuer, subject);
+  if (existing) {
+    if (existing.disabledAt) throw new OidcLoginError("Your dashboard account is disabled");
+    const updated = await storage.updateUser(existing.id, { role, lastLoginAt: new Date() });
+    return updated ?? existing;
+  }
+
+  const username = [claims[cfg.usernameClaim], claims.email, subject]
+    .find((value): value is string => typeof value === "string" && value.length > 0)!;
+  // Local accounts are not taken over by a provider user of the same name
+  if (await storage.getUserByUsername(username)) {
+    throw new OidcLoginError(`An account named "${username}" already exists; ask an admin to rename or remove it`);
+  }
+  const user = await storage.createUser({
+    username,
+    role,
+    oidcIssuer: issuer,
+    oidcSubject: subject,
+    lastLoginAt: new Date(),
+  });
+  log(`Created ${role} account "${username}" on first single sign-on`, "oidc");
+  return user;
+}
+
+function redirectWithError(res: Response, message: string) {
+  res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+}
+
+/** Registers /api/auth/oidc/login and /callback when single sign-on is configured. */
+export function setupOidc(app: Express): void {
+  if (!config) return;
+  const cfg = config;
+  log(`Single sign-on enabled with ${cfg.discoveryUrl}`, "oidc");
+
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    try {
+      const meta = await getMetadata(cfg);
+      const state = crypto.randomBytes(16).toString("base64url");
+      const nonce = crypto.randomBytes(16).toString("base64url");
+      const codeVerifier = crypto.randomBytes(32).toString("base64url");
+      req.session.oidc = { state, nonce, codeVerifier, returnTo: safeReturnTo(req.query.returnTo) };
+
+      const url = new URL(meta.authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", cfg.clientId);
+      url.searchParams.set("redirect_uri", redirectUrlFor(cfg, req));
+      url.searchParams.set("scope", cfg.scopes);
+      url.searchParams.set("state", state);
+      url.searchParams.set("nonce", nonce);
+      url.searchParams.set("code_challenge", crypto.createHash("sha256").update(codeVerifier).digest("base64url"));
+      url.searchParams.set("code_challenge_method", "S256");
+      req.session.save((err) => {
+        if (err) {
+          console.error("Error saving session for single sign-on:", err);
+          return redirectWithError(res, "Could not start single sign-on");
+        }
+        res.redirect(url.toString());
+      });
+    } catch (error) {
+      console.error("Error starting single sign-on:", error);
+      redirectWithError(res, "The identity provider is not reachable");
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    const pending = req.session.oidc;
+    delete req.session.oidc;
+    try {
+      if (typeof req.query.error === "string") {
+        throw new OidcLoginError(`The identity provider refused the login: ${req.query.error_description ?? req.query.error}`);
+      }
+      if (!pending || req.query.state !== pending.state || typeof req.query.code !== "string") {
+        throw new OidcLoginError("The login link expired, please try again");
+      }
+
+      const meta = await getMetadata(cfg);
+      const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(meta.token_endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: "Basic " + Buffer.from(
+            `${encodeURIComponent(cfg.clientId)}:${encodeURIComponent(cfg.clientSecret)}`,
+          ).toString("base64"),
+        },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code: req.query.code,
+          redirect_uri: redirectUrlFor(cfg, req),
+          code_verifier: pending.codeVerifier,
+        }).toString(),
+      });
+      if (!tokens.id_token) throw new Error("Token response has no id_token");
+
+      let claims = await verifyIdToken(cfg, meta, tokens.id_token, pending.nonce);
+      // Providers often leave groups out of the ID token but return them from userinfo
+      if (!(cfg.groupsClaim in claims) && meta.userinfo_endpoint && tokens.access_token) {
+        const userinfo = await fetchJson<Claims>(meta.userinfo_endpoint, {
+          headers: { Authorization: `Bearer ${tokens.access_token}` },
+        });
+        if (userinfo.sub === claims.sub) claims = { ...userinfo, ...claims };
+      }
+
+      const user = await upsertOidcUser(cfg, meta.issuer, claims);
+      await logIn(req, user);
+      res.redirect(pending.returnTo);
+    } catch (error) {
+      console.error("Error completing single sign-on:", error);
+      redirectWithError(res, error instanceof OidcLoginError ? error.message : "Single sign-on failed");
+    }
+  });
+}
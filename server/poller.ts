@@ -1,115 +1,226 @@
-import { eq, sql } from "drizzle-orm";
+import { eq, lt, sql } from "drizzle-orm";
 import { db } from "./db";
-import { n8nInstances, executionLogs, syncStatus, normalizeStatus } from "@shared/schema";
+import {
+  n8nInstances,
+  executionLogs,
+  syncStatus,
+  syncRuns,
+  normalizeStatus,
+  type StatusRules,
+  type SyncRunTrigger,
+} from "@shared/schema";
 import { getPoolForInstance } from "./tunnel-manager";
+import { getInstance } from "./instance-store";
+import { fetchHooksExecutionsPage, hooksTableFor } from "./hooks-source";
+import { fetchNativeExecutionsPage } from "./native-source";
+import { fetchApiExecutions, parseApiResumePoint } from "./api-source";
+import { recordSyncFailure, getRetryDelayMs, markHalfOpen } from "./circuit-breaker";
+import { reconcileIfDue } from "./reconcile";
+import { publishExecutions, publishSyncStatus } from "./events";
+import { log } from "./log";
 
-function log(message: string) {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-  console.log(`${formattedTime} [poller] ${message}`);
-}
-
-const POLL_INTERVAL_MS = 60_000; // 60 seconds
+// Scheduled syncs wait for a free slot. Manual syncs start immediately even
+// when all slots are taken, but still occupy one while they run, so scheduled
+// syncs queue behind them.
+const MAX_CONCURRENT_SYNCS = Number(process.env.MAX_CONCURRENT_SYNCS) || 3;
 const INITIAL_LOOKBACK_DAYS = 30;
 const CLOCK_SKEW_MINUTES = 5;
 const BATCH_SIZE = 500;
+const SYNC_RUN_RETENTION_DAYS = 30;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const SCHEDULE_RETRY_MS = 60_000;
+
+type Instance = typeof n8nInstances.$inferSelect;
+type ScheduleSettings = Pick<Instance, "id" | "sourceType" | "pollingEnabled" | "pollIntervalSeconds">;
 
-let pollTimer: ReturnType<typeof setInterval> | null = null;
-let isPolling = false;
+// One timer per instance. It fires, queues a sync, and is re-armed once that
+// sync settles, so a slow instance only ever delays itself.
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+// Due instances waiting for a free slot, highest pollPriority first
+let queue: Instance[] = [];
+let runningCount = 0;
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+let stopped = true;
 
-// Track per-instance manual sync promises so callers can await them
+// Track per-instance in-flight syncs (scheduled or manual) so callers can await them
 const pendingSyncs = new Map<string, Promise<void>>();
 
 export async function startPoller(): Promise<void> {
-  log("Starting background poller (60s interval)");
+  stopped = false;
+  log(`Starting background poller (up to ${MAX_CONCURRENT_SYNCS} concurrent syncs)`, "poller");
+  const instances = await db.select().from(n8nInstances);
   // Run first sync immediately
-  await pollAllInstances();
-  pollTimer = setInterval(pollAllInstances, POLL_INTERVAL_MS);
+  for (const instance of instances) {
+    scheduleInstance(instance, 0);
+  }
+  cleanupTimer = setInterval(() => {
+    pruneSyncRuns().catch((err) => log(`Failed to prune sync runs: ${err}`, "poller"));
+  }, CLEANUP_INTERVAL_MS);
 }
 
 export function stopPoller(): void {
-  if (pollTimer) {
-    clearInterval(pollTimer);
-    pollTimer = null;
+  stopped = true;
+  for (const timer of Array.from(timers.values())) {
+    clearTimeout(timer);
+  }
+  timers.clear();
+  queue = [];
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
   }
-  log("Poller stopped");
+  log("Poller stopped", "poller");
 }
 
-async function pollAllInstances(): Promise<void> {
-  if (isPolling) {
-    log("Poll cycle already in progress, skipping");
-    return;
-  }
+/** (Re)arms an instance's timer from its current settings. Call after the
+ *  instance is created or updated; paused and push instances stay unscheduled. */
+export function scheduleInstance(
+  instance: ScheduleSettings,
+  delayMs = instance.pollIntervalSeconds * 1000,
+): void {
+  unscheduleInstance(instance.id);
+  if (stopped || instance.sourceType === "push" || !instance.pollingEnabled) return;
+  timers.set(instance.id, setTimeout(() => void onTimer(instance.id), delayMs));
+}
 
-  isPolling = true;
+export function unscheduleInstance(instanceId: string): void {
+  const timer = timers.get(instanceId);
+  if (timer) clearTimeout(timer);
+  timers.delete(instanceId);
+  queue = queue.filter((queued) => queued.id !== instanceId);
+}
+
+async function onTimer(instanceId: string): Promise<void> {
+  timers.delete(instanceId);
   try {
-    const instances = await db.select().from(n8nInstances);
-    for (const instance of instances) {
-      try {
-        await pollInstance(instance);
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        log(`Sync failed for "${instance.name}" (${instance.id}): ${msg}`);
-        // Write failure to sync_status
-        await db
-          .insert(syncStatus)
-          .values({
-            instanceId: instance.id,
-            lastSyncSuccess: false,
-            lastSyncError: msg,
-            updatedAt: new Date(),
-          })
-          .onConflictDoUpdate({
-            target: syncStatus.instanceId,
-            set: {
-              lastSyncSuccess: false,
-              lastSyncError: msg,
-              updatedAt: new Date(),
-            },
-          });
-      }
+    // Re-read so edits made since the timer was armed take effect
+    const instance = await getInstance(instanceId);
+    if (!instance) return;
+    // A manual sync is already running; it re-arms the timer when it settles
+    if (pendingSyncs.has(instanceId)) return;
+    if (isInQuietHours(instance)) {
+      scheduleInstance(instance);
+      return;
+    }
+    if (instance.sourceType === "push" || !instance.pollingEnabled) return;
+    // Circuit open: sleep until its backoff elapses, then probe once half-open
+    const retryDelayMs = await getRetryDelayMs(instanceId);
+    if (retryDelayMs > 0) {
+      scheduleInstance(instance, retryDelayMs);
+      return;
+    }
+    await markHalfOpen(instanceId);
+    publishSyncStatus(instanceId);
+
+    queue.push(instance);
+    // Array.prototype.sort is stable, so equal priorities keep their arrival order
+    queue.sort((a, b) => b.pollPriority - a.pollPriority);
+    drainQueue();
+  } catch (err) {
+    log(`Failed to schedule sync for ${instanceId}: ${err instanceof Error ? err.message : err}`, "poller");
+    if (!stopped) {
+      timers.set(instanceId, setTimeout(() => void onTimer(instanceId), SCHEDULE_RETRY_MS));
     }
-  } finally {
-    isPolling = false;
   }
 }
 
-async function pollInstance(instance: typeof n8nInstances.$inferSelect): Promise<void> {
-  const pool = await getPoolForInstance(instance);
+function drainQueue(): void {
+  while (!stopped && runningCount < MAX_CONCURRENT_SYNCS && queue.length > 0) {
+    const instance = queue.shift()!;
+    // Failures are already logged and written to sync_status
+    runSync(instance, "scheduled").catch(() => {});
+  }
+}
 
-  // Read last sync timestamp
-  const syncRows = await db
-    .select()
-    .from(syncStatus)
-    .where(eq(syncStatus.instanceId, instance.id));
+function runSync(instance: Instance, trigger: SyncRunTrigger): Promise<void> {
+  const existing = pendingSyncs.get(instance.id);
+  if (existing) return existing;
 
-  const lastSyncedAt = syncRows[0]?.lastSyncedAt;
+  runningCount++;
+  const promise = (async () => {
+    try {
+      await pollInstance(instance, trigger);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const circuit = await recordSyncFailure(instance.id, msg).catch((recordErr) => {
+        log(`Failed to record sync failure for "${instance.name}": ${recordErr}`, "poller");
+        return null;
+      });
+      const retry = circuit?.nextRetryAt
+        ? `; circuit open, retrying at ${circuit.nextRetryAt.toISOString()}`
+        : "";
+      log(`Sync failed for "${instance.name}" (${instance.id}): ${msg}${retry}`, "poller");
+      throw err;
+    } finally {
+      runningCount--;
+      pendingSyncs.delete(instance.id);
+      publishSyncStatus(instance.id);
+      await rearm(instance.id);
+      drainQueue();
+    }
+  })();
 
-  // Build the WHERE clause for incremental sync
-  let whereClause: string;
-  let queryParams: (string | number)[];
+  pendingSyncs.set(instance.id, promise);
+  return promise;
+}
 
-  if (!lastSyncedAt) {
-    // Initial sync: last N days
-    whereClause = `WHERE created_at >= NOW() - INTERVAL '${INITIAL_LOOKBACK_DAYS} days'`;
-    queryParams = [];
-  } else {
-    // Incremental: fetch from lastSyncedAt minus safety margin
-    const since = new Date(lastSyncedAt.getTime() - CLOCK_SKEW_MINUTES * 60 * 1000);
-    whereClause = `WHERE created_at >= $1`;
-    queryParams = [since.toISOString()];
+async function rearm(instanceId: string): Promise<void> {
+  if (stopped) return;
+  try {
+    const [instance] = await db.select().from(n8nInstances).where(eq(n8nInstances.id, instanceId));
+    if (!instance) return;
+    const retryDelayMs = await getRetryDelayMs(instanceId);
+    scheduleInstance(instance, Math.max(instance.pollIntervalSeconds * 1000, retryDelayMs));
+  } catch (err) {
+    log(`Failed to re-arm timer for ${instanceId}: ${err instanceof Error ? err.message : err}`, "poller");
+    timers.set(instanceId, setTimeout(() => void onTimer(instanceId), SCHEDULE_RETRY_MS));
   }
+}
+
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
 
-  const result = await pool.query(
-    `SELECT * FROM n8n_execution_logs ${whereClause} ORDER BY created_at ASC`,
-    queryParams
-  );
+/** Whether "now" falls inside the instance's quiet hours, evaluated in its
+ *  configured time zone (server local time when unset). */
+function isInQuietHours(instance: Instance, now = new Date()): boolean {
+  if (!instance.quietHoursStart || !instance.quietHoursEnd) return false;
 
-  const rows = result.rows;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: instance.quietHoursTimezone ?? undefined,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value);
+  const current = hour * 60 + minute;
+  const start = minutesOfDay(instance.quietHoursStart);
+  const end = minutesOfDay(instance.quietHoursEnd);
+
+  // A window like 22:00–06:00 wraps midnight
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+async function pruneSyncRuns(): Promise<void> {
+  const cutoff = new Date(Date.now() - SYNC_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await db.delete(syncRuns).where(lt(syncRuns.startedAt, cutoff));
+}
+
+/** Upsert remote rows (snake_case, as read from n8n_execution_logs or mapped
+ *  into that shape by the other sources) into the local cache, normalizing
+ *  statuses with the instance's rules. In "metadata" storage mode the JSONB
+ *  payloads are dropped. Rows that come back unchanged are not rewritten; the
+ *  count and the live event cover only new and changed rows. */
+export async function upsertExecutionRows(
+  instance: Pick<Instance, "id" | "storageMode"> & StatusRules,
+  rows: Record<string, unknown>[],
+): Promise<number> {
+  const instanceId = instance.id;
+  const keepPayload = instance.storageMode === "full";
   let upsertedCount = 0;
 
   // Batch upsert
@@ -117,11 +228,12 @@ async function pollInstance(instance: typeof n8nInstances.$inferSelect): Promise
     const batch = rows.slice(i, i + BATCH_SIZE);
 
     const values = batch.map((row: Record<string, unknown>) => ({
-      instanceId: instance.id,
+      instanceId,
       executionId: String(row.execution_id),
       workflowId: String(row.workflow_id),
       workflowName: String(row.workflow_name),
-      status: normalizeStatus(String(row.status)),
+      status: normalizeStatus(String(row.status), instance),
+      rawStatus: String(row.status),
       finished: Boolean(row.finished),
       startedAt: row.started_at ? new Date(row.started_at as string) : null,
       finishedAt: row.finished_at ? new Date(row.finished_at as string) : null,
@@ -129,30 +241,242 @@ async function pollInstance(instance: typeof n8nInstances.$inferSelect): Promise
       mode: row.mode != null ? String(row.mode) : null,
       nodeCount: row.node_count != null ? Number(row.node_count) : null,
       errorMessage: row.error_message != null ? String(row.error_message) : null,
-      executionData: row.execution_data ?? null,
-      workflowData: row.workflow_data ?? null,
+      executionData: keepPayload ? row.execution_data ?? null : null,
+      workflowData: keepPayload ? row.workflow_data ?? null : null,
+      extra: row.extra ?? null,
       createdAt: new Date(row.created_at as string),
     }));
 
-    await db
+    const written = await db
       .insert(executionLogs)
       .values(values)
       .onConflictDoUpdate({
         target: [executionLogs.instanceId, executionLogs.executionId],
         set: {
           status: sql`excluded.status`,
+          rawStatus: sql`excluded.raw_status`,
           finished: sql`excluded.finished`,
           finishedAt: sql`excluded.finished_at`,
           durationMs: sql`excluded.duration_ms`,
           errorMessage: sql`excluded.error_message`,
           executionData: sql`excluded.execution_data`,
           workflowData: sql`excluded.workflow_data`,
+          extra: sql`excluded.extra`,
+          deletedUpstreamAt: null,
+          payloadPrunedAt: null,
         },
+        setWhere: sql`
+          ${executionLogs.status} IS DISTINCT FROM excluded.status
+          OR ${executionLogs.rawStatus} IS DISTINCT FROM excluded.raw_status
+          OR ${executionLogs.finished} IS DISTINCT FROM excluded.finished
+          OR ${executionLogs.finishedAt} IS DISTINCT FROM excluded.finished_at
+          OR ${executionLogs.durationMs} IS DISTINCT FROM excluded.duration_ms
+          OR ${executionLogs.errorMessage} IS DISTINCT FROM excluded.error_message
+          OR ${executionLogs.executionData} IS DISTINCT FROM excluded.execution_data
+          OR ${executionLogs.workflowData} IS DISTINCT FROM excluded.workflow_data
+          OR ${executionLogs.extra} IS DISTINCT FROM excluded.extra
+          OR ${executionLogs.deletedUpstreamAt} IS NOT NULL
+        `,
+      })
+      .returning({
+        executionId: executionLogs.executionId,
+        status: executionLogs.status,
+        // xmax is 0 for a freshly inserted row and set for an updated one
+        inserted: sql<boolean>`(xmax = 0)`,
       });
 
-    upsertedCount += batch.length;
+    upsertedCount += written.length;
+    publishExecutions(instanceId, written);
   }
 
+  return upsertedCount;
+}
+
+async function saveHighWaterMark(instanceId: string, at: string | null, id: string | null): Promise<void> {
+  await db
+    .insert(syncStatus)
+    .values({
+      instanceId,
+      highWaterMarkAt: at,
+      highWaterMarkId: id,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: syncStatus.instanceId,
+      set: {
+        highWaterMarkAt: at,
+        highWaterMarkId: id,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/** Per-run counters recorded in sync_runs */
+interface SyncMetrics {
+  rowsFetched: number;
+  rowsUpserted: number;
+  bytesTransferred: number;
+  tunnelSetupMs: number;
+  queryMs: number;
+}
+
+function payloadBytes(rows: Record<string, unknown>[]): number {
+  return Buffer.byteLength(JSON.stringify(rows));
+}
+
+async function timedPool(instance: typeof n8nInstances.$inferSelect, metrics: SyncMetrics) {
+  const start = Date.now();
+  const pool = await getPoolForInstance(instance);
+  metrics.tunnelSetupMs += Date.now() - start;
+  return pool;
+}
+
+/** Keyset-paginates the hooks table by (created_at, execution_id), upserting
+ *  each page as it arrives instead of loading the whole range into memory. */
+async function syncHooksTable(
+  instance: typeof n8nInstances.$inferSelect,
+  since: Date,
+  resume: { at: string; id: string } | null,
+  metrics: SyncMetrics,
+): Promise<void> {
+  const pool = await timedPool(instance, metrics);
+  const table = hooksTableFor(instance);
+  let afterAt = resume?.at ?? since.toISOString();
+  let afterId = resume?.id ?? "";
+
+  for (;;) {
+    const queryStart = Date.now();
+    const rows = await fetchHooksExecutionsPage(
+      pool, table, afterAt, afterId, null, BATCH_SIZE, instance.storageMode === "full",
+    );
+    metrics.queryMs += Date.now() - queryStart;
+    if (rows.length === 0) break;
+
+    metrics.rowsFetched += rows.length;
+    metrics.bytesTransferred += payloadBytes(rows);
+    metrics.rowsUpserted += await upsertExecutionRows(instance, rows);
+
+    const last = rows[rows.length - 1];
+    afterAt = String(last.keyset_created_at);
+    afterId = String(last.execution_id);
+    await saveHighWaterMark(instance.id, afterAt, afterId);
+
+    if (rows.length < BATCH_SIZE) break;
+  }
+}
+
+/** Same as syncHooksTable for n8n's own tables, keyed on the integer execution
+ *  id. The time bound is saved with the id so a resumed sync uses the same filter. */
+async function syncNativeTables(
+  instance: typeof n8nInstances.$inferSelect,
+  since: Date,
+  resume: { at: string; id: string } | null,
+  metrics: SyncMetrics,
+): Promise<void> {
+  const pool = await timedPool(instance, metrics);
+  const sinceAt = resume?.at ?? since.toISOString();
+  let afterId = resume ? Number(resume.id) : 0;
+
+  for (;;) {
+    const queryStart = Date.now();
+    const rows = await fetchNativeExecutionsPage(
+      pool, sinceAt, null, afterId, BATCH_SIZE, instance.storageMode === "full",
+    );
+    metrics.queryMs += Date.now() - queryStart;
+    if (rows.length === 0) break;
+
+    metrics.rowsFetched += rows.length;
+    metrics.bytesTransferred += payloadBytes(rows);
+    metrics.rowsUpserted += await upsertExecutionRows(instance, rows);
+
+    afterId = Number(rows[rows.length - 1].execution_id);
+    await saveHighWaterMark(instance.id, sinceAt, String(afterId));
+
+    if (rows.length < BATCH_SIZE) break;
+  }
+}
+
+async function pollInstance(
+  instance: typeof n8nInstances.$inferSelect,
+  trigger: SyncRunTrigger,
+): Promise<void> {
+  const metrics: SyncMetrics = {
+    rowsFetched: 0,
+    rowsUpserted: 0,
+    bytesTransferred: 0,
+    tunnelSetupMs: 0,
+    queryMs: 0,
+  };
+  const [run] = await db
+    .insert(syncRuns)
+    .values({ instanceId: instance.id, trigger })
+    .returning({ id: syncRuns.id });
+  publishSyncStatus(instance.id);
+
+  let error: string | null = null;
+  try {
+    await syncInstance(instance, metrics);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    await db
+      .update(syncRuns)
+      .set({ ...metrics, finishedAt: new Date(), success: error === null, error })
+      .where(eq(syncRuns.id, run.id))
+      .catch((err) => log(`Failed to record sync run for "${instance.name}": ${err}`, "poller"));
+  }
+}
+
+async function syncInstance(instance: typeof n8nInstances.$inferSelect, metrics: SyncMetrics): Promise<void> {
+  // Read last sync timestamp
+  const syncRows = await db
+    .select()
+    .from(syncStatus)
+    .where(eq(syncStatus.instanceId, instance.id));
+
+  const lastSyncedAt = syncRows[0]?.lastSyncedAt;
+  const initialSince = new Date(Date.now() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  // Incremental: fetch from lastSyncedAt minus safety margin
+  const since = lastSyncedAt
+    ? new Date(lastSyncedAt.getTime() - CLOCK_SKEW_MINUTES * 60 * 1000)
+    : initialSince;
+
+  // A previous sync that stopped part-way through left its position behind
+  const resume = syncRows[0]?.highWaterMarkAt && syncRows[0]?.highWaterMarkId != null
+    ? { at: syncRows[0].highWaterMarkAt, id: syncRows[0].highWaterMarkId }
+    : null;
+  if (resume) {
+    log(`Resuming interrupted sync for "${instance.name}" after ${resume.at} / ${resume.id}`, "poller");
+  }
+
+  let cursor = syncRows[0]?.syncCursor ?? null;
+
+  if (instance.sourceType === "api") {
+    // The API has no separate query phase, so fetch time is everything but the upserts
+    const fetchStart = Date.now();
+    let upsertMs = 0;
+    const apiResume = resume ? parseApiResumePoint(resume.id) : null;
+    cursor = await fetchApiExecutions(instance, cursor, initialSince, apiResume, async (rows, resumeAfter) => {
+      metrics.rowsFetched += rows.length;
+      metrics.bytesTransferred += payloadBytes(rows);
+      const upsertStart = Date.now();
+      metrics.rowsUpserted += await upsertExecutionRows(instance, rows);
+      if (resumeAfter) {
+        await saveHighWaterMark(instance.id, String(rows[rows.length - 1].created_at), JSON.stringify(resumeAfter));
+      }
+      upsertMs += Date.now() - upsertStart;
+    });
+    metrics.queryMs = Date.now() - fetchStart - upsertMs;
+  } else if (instance.sourceType === "native") {
+    await syncNativeTables(instance, since, resume, metrics);
+  } else {
+    await syncHooksTable(instance, since, resume, metrics);
+  }
+
+  // Records the sync read, changed or not; sync_runs keeps the changed count
+  const recordCount = metrics.rowsFetched;
+
   // Update sync_status
   await db
     .insert(syncStatus)
@@ -161,7 +485,13 @@ async function pollInstance(instance: typeof n8nInstances.$inferSelect): Promise
       lastSyncedAt: new Date(),
       lastSyncSuccess: true,
       lastSyncError: null,
-      lastSyncRecordCount: upsertedCount,
+      lastSyncRecordCount: recordCount,
+      syncCursor: cursor,
+      highWaterMarkAt: null,
+      highWaterMarkId: null,
+      consecutiveFailures: 0,
+      circuitState: "closed",
+      nextRetryAt: null,
       updatedAt: new Date(),
     })
     .onConflictDoUpdate({
@@ -170,36 +500,44 @@ async function pollInstance(instance: typeof n8nInstances.$inferSelect): Promise
         lastSyncedAt: new Date(),
         lastSyncSuccess: true,
         lastSyncError: null,
-        lastSyncRecordCount: upsertedCount,
+        lastSyncRecordCount: recordCount,
+        syncCursor: cursor,
+        highWaterMarkAt: null,
+        highWaterMarkId: null,
+        consecutiveFailures: 0,
+        circuitState: "closed",
+        nextRetryAt: null,
         updatedAt: new Date(),
       },
     });
 
-  log(`Synced ${upsertedCount} records for "${instance.name}"`);
+  log(`Synced ${recordCount} records for "${instance.name}" (${metrics.rowsUpserted} new or changed)`, "poller");
+
+  await reconcileIfDue(instance, syncRows[0]?.lastReconciledAt ?? null);
+}
+
+/** Resolves once no sync is running for the instance, however it ended. */
+export async function waitForIdleSync(instanceId: string): Promise<void> {
+  let running = pendingSyncs.get(instanceId);
+  while (running) {
+    await running.catch(() => {});
+    running = pendingSyncs.get(instanceId);
+  }
 }
 
 export async function triggerSyncForInstance(instanceId: string): Promise<void> {
-  // Deduplicate concurrent manual syncs for the same instance
+  // Deduplicate against a sync that is already running for the same instance
   const existing = pendingSyncs.get(instanceId);
   if (existing) return existing;
 
-  const promise = (async () => {
-    try {
-      const instances = await db
-        .select()
-        .from(n8nInstances)
-        .where(eq(n8nInstances.id, instanceId));
-
-      if (instances.length === 0) {
-        throw new Error("Instance not found");
-      }
+  const instance = await getInstance(instanceId);
+  if (!instance) {
+    throw new Error("Instance not found");
+  }
 
-      await pollInstance(instances[0]);
-    } finally {
-      pendingSyncs.delete(instanceId);
-    }
-  })();
+  if (instance.sourceType === "push") return;
 
-  pendingSyncs.set(instanceId, promise);
-  return promise;
+  // The manual run supersedes a scheduled one still waiting for a slot
+  queue = queue.filter((queued) => queued.id !== instanceId);
+  return runSync(instance, "manual");
 }
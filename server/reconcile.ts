@@ -0,0 +1,131 @@
+import { and, asc, eq, gte, inArray, isNull, lt } from "drizzle-orm";
+import { db } from "./db";
+import { executionLogs, syncStatus, type N8nInstance } from "@shared/schema";
+import { getPoolForInstance } from "./tunnel-manager";
+import { fetchExistingHooksExecutionIds, hooksTableFor } from "./hooks-source";
+import { fetchExistingNativeExecutionIds } from "./native-source";
+import { fetchApiExecutionIds } from "./api-source";
+import { log } from "./log";
+
+const RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const WINDOW_MS = 24 * 60 * 60 * 1000; // one day of local rows per window
+// Rows this recent may belong to a sync that is still running, so leave them be
+const GRACE_MS = 15 * 60 * 1000;
+const ID_BATCH_SIZE = 1000;
+
+export interface ReconcileResult {
+  checked: number;
+  missing: number;
+}
+
+export function isReconcileSupported(instance: N8nInstance): boolean {
+  return instance.sourceType !== "push" && instance.reconcileMode !== "off";
+}
+
+/** Runs a reconciliation pass if the last one is older than the reconcile
+ *  interval. Called after a successful sync; failures are recorded in
+ *  sync_status but never fail the sync itself. */
+export async function reconcileIfDue(instance: N8nInstance, lastReconciledAt: Date | null): Promise<void> {
+  if (!isReconcileSupported(instance)) return;
+  if (lastReconciledAt && Date.now() - lastReconciledAt.getTime() < RECONCILE_INTERVAL_MS) return;
+
+  try {
+    await reconcileInstance(instance);
+  } catch {
+    // Already logged and recorded by reconcileInstance
+  }
+}
+
+/** Compares local execution ids against the remote, one day window at a time,
+ *  and marks or deletes (per the instance's reconcileMode) the ones the remote
+ *  no longer has. The outcome is written to sync_status. */
+export async function reconcileInstance(instance: N8nInstance): Promise<ReconcileResult> {
+  const result: ReconcileResult = { checked: 0, missing: 0 };
+  try {
+    const live = and(eq(executionLogs.instanceId, instance.id), isNull(executionLogs.deletedUpstreamAt));
+    const [oldest] = await db
+      .select({ createdAt: executionLogs.createdAt })
+      .from(executionLogs)
+      .where(live)
+      .orderBy(asc(executionLogs.createdAt))
+      .limit(1);
+
+    if (oldest) {
+      const end = Date.now() - GRACE_MS;
+      // The API can't look ids up directly, so list everything in range once
+      const apiIds = instance.sourceType === "api"
+        ? await fetchApiExecutionIds(instance, oldest.createdAt)
+        : null;
+
+      for (let from = oldest.createdAt.getTime(); from < end; from += WINDOW_MS) {
+        const to = Math.min(from + WINDOW_MS, end);
+        const localRows = await db
+          .select({ executionId: executionLogs.executionId })
+          .from(executionLogs)
+          .where(and(
+            live,
+            gte(executionLogs.createdAt, new Date(from)),
+            lt(executionLogs.createdAt, new Date(to)),
+          ));
+
+        for (let i = 0; i < localRows.length; i += ID_BATCH_SIZE) {
+          const ids = localRows.slice(i, i + ID_BATCH_SIZE).map((r) => r.executionId);
+          const present = apiIds ?? await fetchExistingIds(instance, ids);
+          const missing = ids.filter((id) => !present.has(id));
+          result.checked += ids.length;
+          result.missing += missing.length;
+          if (missing.length > 0) await removeMissing(instance, missing);
+        }
+      }
+    }
+
+    await recordReconcile(instance.id, { ...result, error: null });
+    if (result.missing > 0) {
+      const action = instance.reconcileMode === "delete" ? "deleted" : "marked deleted_upstream";
+      log(`"${instance.name}": ${result.missing} of ${result.checked} executions gone upstream, ${action}`, "reconcile");
+    }
+    return result;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Reconciliation failed for "${instance.name}" (${instance.id}): ${msg}`, "reconcile");
+    await recordReconcile(instance.id, { ...result, error: msg })
+      .catch((recordErr) => log(`Failed to record reconciliation for "${instance.name}": ${recordErr}`, "reconcile"));
+    throw err;
+  }
+}
+
+async function fetchExistingIds(instance: N8nInstance, ids: string[]): Promise<Set<string>> {
+  const pool = await getPoolForInstance(instance);
+  return instance.sourceType === "native"
+    ? fetchExistingNativeExecutionIds(pool, ids)
+    : fetchExistingHooksExecutionIds(pool, hooksTableFor(instance), ids);
+}
+
+async function removeMissing(instance: N8nInstance, executionIds: string[]): Promise<void> {
+  const match = and(
+    eq(executionLogs.instanceId, instance.id),
+    inArray(executionLogs.executionId, executionIds),
+  );
+  if (instance.reconcileMode === "delete") {
+    await db.delete(executionLogs).where(match);
+  } else {
+    await db.update(executionLogs).set({ deletedUpstreamAt: new Date() }).where(match);
+  }
+}
+
+async function recordReconcile(
+  instanceId: string,
+  outcome: ReconcileResult & { error: string | null },
+): Promise<void> {
+  const values = {
+    lastReconciledAt: new Date(),
+    lastReconcileCheckedCount: outcome.checked,
+    lastReconcileMissingCount: outcome.missing,
+    lastReconcileError: outcome.error,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(syncStatus)
+    .values({ instanceId, ...values })
+    .onConflictDoUpdate({ target: syncStatus.instanceId, set: values });
+}
@@ -0,0 +1,85 @@
+import type { N8nInstance } from "@shared/schema";
+import { getPoolForInstance } from "./tunnel-manager";
+import { fetchHooksExecutionPayload, hooksTableFor } from "./hooks-source";
+import { fetchNativeExecutionPayload } from "./native-source";
+import { fetchApiExecutionPayload } from "./api-source";
+
+const MAX_CACHE_BYTES = (Number(process.env.DETAIL_CACHE_MAX_MB) || 64) * 1024 * 1024;
+
+interface RemotePayload {
+  executionData: unknown;
+  workflowData: unknown;
+}
+
+interface CacheEntry {
+  payload: RemotePayload;
+  bytes: number;
+}
+
+// LRU by byte size: Map iteration order is insertion order, so re-inserting on
+// every hit keeps the least recently used entry first.
+const cache = new Map<string, CacheEntry>();
+let cachedBytes = 0;
+
+function cacheKey(instanceId: string, executionId: string): string {
+  return `${instanceId}:${executionId}`;
+}
+
+function remember(key: string, payload: RemotePayload): void {
+  const bytes = Buffer.byteLength(JSON.stringify(payload));
+  // A single payload bigger than the whole cache is served but not kept
+  if (bytes > MAX_CACHE_BYTES) return;
+
+  forget(key);
+  cache.set(key, { payload, bytes });
+  cachedBytes += bytes;
+
+  for (const [oldestKey] of Array.from(cache)) {
+    if (cachedBytes <= MAX_CACHE_BYTES) break;
+    forget(oldestKey);
+  }
+}
+
+function forget(key: string): void {
+  const entry = cache.get(key);
+  if (!entry) return;
+  cache.delete(key);
+  cachedBytes -= entry.bytes;
+}
+
+/** Drops all cached payloads of an instance, e.g. after its connection settings change. */
+export function clearRemoteDetailCache(instanceId: string): void {
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${instanceId}:`)) forget(key);
+  }
+}
+
+/** Fetches execution_data / workflow_data for one execution of a
+ *  metadata-only instance from its remote, serving recent ones from the LRU
+ *  cache. Returns null when the remote no longer has the execution. */
+export async function fetchRemoteExecutionPayload(
+  instance: N8nInstance,
+  executionId: string,
+): Promise<{ payload: RemotePayload; cached: boolean } | null> {
+  const key = cacheKey(instance.id, executionId);
+  const hit = cache.get(key);
+  if (hit) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return { payload: hit.payload, cached: true };
+  }
+
+  let payload: RemotePayload | null;
+  if (instance.sourceType === "api") {
+    payload = await fetchApiExecutionPayload(instance, executionId);
+  } else {
+    const pool = await getPoolForInstance(instance);
+    payload = instance.sourceType === "native"
+      ? await fetchNativeExecutionPayload(pool, executionId)
+      : await fetchHooksExecutionPayload(pool, hooksTableFor(instance), executionId);
+  }
+
+  if (!payload) return null;
+  remember(key, payload);
+  return { payload, cached: false };
+}
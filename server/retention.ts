@@ -0,0 +1,128 @@
+import { eq, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { n8nInstances, retentionRules, syncStatus, type RetentionRule } from "@shared/schema";
+import { log } from "./log";
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000; // hourly
+// Rows per statement, so pruning a large backlog never holds long locks
+const BATCH_SIZE = 5000;
+
+let retentionTimer: ReturnType<typeof setInterval> | null = null;
+let isRunning = false;
+
+export function startRetentionJob(): void {
+  log("Starting retention job (hourly)", "retention");
+  void runRetention();
+  retentionTimer = setInterval(() => void runRetention(), RETENTION_INTERVAL_MS);
+}
+
+export function stopRetentionJob(): void {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
+
+async function runRetention(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const instances = await db.select({ id: n8nInstances.id, name: n8nInstances.name }).from(n8nInstances);
+    for (const instance of instances) {
+      try {
+        const { pruned, deleted } = await applyRetention(instance.id);
+        if (pruned > 0 || deleted > 0) {
+          log(`"${instance.name}": cleared payloads of ${pruned} executions, deleted ${deleted}`, "retention");
+        }
+      } catch (err) {
+        log(`Retention failed for "${instance.name}" (${instance.id}): ${err instanceof Error ? err.message : err}`, "retention");
+      }
+    }
+  } catch (err) {
+    log(`Retention run failed: ${err instanceof Error ? err.message : err}`, "retention");
+  } finally {
+    isRunning = false;
+  }
+}
+
+// workflow + status (3) > workflow (2) > status (1) > instance default (0)
+function specificity(rule: RetentionRule): number {
+  return (rule.workflowName != null ? 2 : 0) + (rule.status != null ? 1 : 0);
+}
+
+/** Rows of `e` (execution_logs) older than `days` that this rule governs,
+ *  i.e. it matches them and no more specific rule does. */
+function governedBy(rule: RetentionRule, days: number): SQL {
+  const conditions = [
+    sql`e.instance_id = ${rule.instanceId}`,
+    sql`e.created_at < NOW() - MAKE_INTERVAL(days => ${days})`,
+  ];
+  if (rule.workflowName != null) conditions.push(sql`e.workflow_name = ${rule.workflowName}`);
+  if (rule.status != null) conditions.push(sql`e.status = ${rule.status}`);
+  conditions.push(sql`NOT EXISTS (
+    SELECT 1 FROM retention_rules r
+    WHERE r.instance_id = e.instance_id
+      AND (r.workflow_name IS NULL OR r.workflow_name = e.workflow_name)
+      AND (r.status IS NULL OR r.status = e.status)
+      AND (r.workflow_name IS NOT NULL)::int * 2 + (r.status IS NOT NULL)::int > ${specificity(rule)}
+  )`);
+  return sql.join(conditions, sql` AND `);
+}
+
+async function inBatches(statement: SQL): Promise<number> {
+  let total = 0;
+  for (;;) {
+    const result = await db.execute(statement);
+    const count = result.rowCount ?? 0;
+    total += count;
+    if (count < BATCH_SIZE) return total;
+  }
+}
+
+/** Applies an instance's retention rules: deletes rows past their metadata
+ *  age, then clears the JSONB payloads and extra columns of rows past their
+ *  payload age. The metadata columns the aggregate endpoints use are left intact. */
+export async function applyRetention(instanceId: string): Promise<{ pruned: number; deleted: number }> {
+  const rules = await db.select().from(retentionRules).where(eq(retentionRules.instanceId, instanceId));
+  let pruned = 0;
+  let deleted = 0;
+
+  for (const rule of rules) {
+    if (rule.metadataDays != null) {
+      deleted += await inBatches(sql`
+        DELETE FROM execution_logs WHERE id IN (
+          SELECT e.id FROM execution_logs e
+          WHERE ${governedBy(rule, rule.metadataDays)}
+          LIMIT ${BATCH_SIZE}
+        )
+      `);
+    }
+    if (rule.payloadDays != null) {
+      pruned += await inBatches(sql`
+        UPDATE execution_logs
+        SET execution_data = NULL, workflow_data = NULL, extra = NULL, payload_pruned_at = NOW()
+        WHERE id IN (
+          SELECT e.id FROM execution_logs e
+          WHERE ${governedBy(rule, rule.payloadDays)}
+            AND (e.execution_data IS NOT NULL OR e.workflow_data IS NOT NULL OR e.extra IS NOT NULL)
+          LIMIT ${BATCH_SIZE}
+        )
+      `);
+    }
+  }
+
+  if (rules.length === 0) return { pruned, deleted };
+
+  const values = {
+    lastRetentionRunAt: new Date(),
+    lastRetentionPrunedCount: pruned,
+    lastRetentionDeletedCount: deleted,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(syncStatus)
+    .values({ instanceId, ...values })
+    .onConflictDoUpdate({ target: syncStatus.instanceId, set: values });
+
+  return { pruned, deleted };
+}
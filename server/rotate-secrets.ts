@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { reencryptInstanceSecrets } from "./instance-store";
+import { isEncryptionEnabled } from "./secrets";
+
+// Re-encrypts every stored instance credential under SECRETS_MASTER_KEY.
+// To rotate the master key, set SECRETS_MASTER_KEY to the new key and
+// SECRETS_MASTER_KEY_PREVIOUS to the old one, run `npm run secrets:rotate`,
+// then drop SECRETS_MASTER_KEY_PREVIOUS once it reports no failures.
+
+if (!isEncryptionEnabled()) {
+  console.error("[secrets] SECRETS_MASTER_KEY is not set (e.g. `openssl rand -base64 32`)");
+  process.exit(1);
+}
+
+reencryptInstanceSecrets()
+  .then((result) => {
+    console.log(`[secrets] Re-encrypted credentials of ${result.reencrypted} instance(s)`);
+    for (const failure of result.failed) {
+      console.error(`[secrets] Failed for "${failure.name}" (${failure.id}): ${failure.error}`);
+    }
+    process.exit(result.failed.length > 0 ? 1 : 0);
+  })
+  .catch((err) => {
+    console.error("[secrets] Rotation failed:", err);
+    process.exit(1);
+  });
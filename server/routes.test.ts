@@ -0,0 +1,244 @@
+import "./test-env";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { AuditChange, User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { requestLogger } from "./log";
+import { registerRoutes } from "./routes";
+
+// A viewer granted only the "granted" instance. The config database is out of
+// reach, so grants and the rows it returns are stubbed.
+const viewer = {
+  id: "viewer-1",
+  username: "viewer",
+  role: "viewer",
+  allInstances: false,
+  disabledAt: null,
+} as User;
+
+let user = viewer;
+// What any `db.select()` returns: the one backfill job, unless a test stores
+// an instance row
+let storedRows: Record<string, unknown>[] = [{ id: "job-1", instanceId: "hidden" }];
+let server: Server;
+let baseUrl: string;
+// Lines of the request log
+let logged: string[] = [];
+
+before(async () => {
+  mock.method(storage, "getGrantedInstanceIds", async () => ["granted"]);
+  mock.method(db, "select", () => ({
+    from: () => ({ where: async () => storedRows.map((row) => ({ ...row })) }),
+  }));
+
+  mock.method(console, "log", (line: string) => logged.push(line));
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = user;
+    req.isAuthenticated = (() => true) as typeof req.isAuthenticated;
+    next();
+  });
+  app.use(requestLogger);
+  server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  mock.restoreAll();
+  server.close();
+});
+
+const instanceScopedRoutes = [
+  "/api/executions",
+  "/api/executions/stats",
+  "/api/executions/daily",
+  "/api/executions/workflows",
+  "/api/executions/42/detail",
+  "/api/workflow-names",
+  "/api/events",
+  "/api/sync-status",
+];
+
+describe("instance access", () => {
+  for (const path of instanceScopedRoutes) {
+    it(`hides ungranted instances from ${path}`, async () => {
+      const res = await fetch(`${baseUrl}${path}?instanceId=hidden`);
+      assert.equal(res.status, 404);
+      assert.deepEqual(await res.json(), { error: "Instance not found" });
+    });
+
+    it(`rejects a repeated or missing instanceId on ${path}`, async () => {
+      const repeated = await fetch(`${baseUrl}${path}?instanceId=granted&instanceId=hidden`);
+      assert.equal(repeated.status, 400);
+      const missing = await fetch(`${baseUrl}${path}`);
+      assert.equal(missing.status, 400);
+    });
+  }
+
+  it("streams events for a granted instance", async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${baseUrl}/api/events?instanceId=granted`, { signal: controller.signal });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "text/event-stream");
+    controller.abort();
+  });
+
+  it("hides backfill jobs of ungranted instances", async () => {
+    const res = await fetch(`${baseUrl}/api/backfill/job-1`);
+    assert.equal(res.status, 404);
+    const cancel = await fetch(`${baseUrl}/api/backfill/job-1/cancel`, { method: "POST" });
+    assert.equal(cancel.status, 403);
+  });
+
+  it("refuses instance settings to a viewer", async () => {
+    const res = await fetch(`${baseUrl}/api/instances/granted`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    assert.equal(res.status, 403);
+  });
+});
+
+describe("API tokens", () => {
+  it("answers 404 for a token id that isn't a uuid", async () => {
+    const res = await fetch(`${baseUrl}/api/tokens/not-a-uuid`, { method: "DELETE" });
+    assert.equal(res.status, 404);
+    assert.deepEqual(await res.json(), { error: "API token not found" });
+  });
+});
+
+describe("instance changes by an admin", () => {
+  const admin = { ...viewer, id: "admin-1", username: "admin", role: "admin" } as User;
+  let recorded: { action: string; changes: AuditChange[] }[] = [];
+
+  before(() => {
+    user = admin;
+    // Updates apply to the stored row, so the route reads back its change
+    mock.method(db, "update", () => ({
+      set: (data: Record<string, unknown>) => ({
+        where: () => ({
+          returning: async () => {
+            Object.assign(storedRows[0], data);
+            return storedRows;
+          },
+        }),
+      }),
+    }));
+    mock.method(db, "insert", () => ({
+      values: async (event: { action: string; changes: AuditChange[] }) => {
+        recorded.push(event);
+      },
+    }));
+  });
+
+  after(() => {
+    user = viewer;
+  });
+
+  beforeEach(() => {
+    recorded = [];
+    storedRows = [{
+      id: "inst-1",
+      name: "Production",
+      sourceType: "push",
+      sshHost: "db.internal",
+      sshPort: 22,
+      sshJumpHosts: [],
+      sshHostKeys: [],
+      sshTrustOnFirstUse: false,
+      ingestTokenHash: null,
+      updatedAt: new Date(),
+    }];
+  });
+
+  it("records the pinned host key", async () => {
+    const fingerprint = `SHA256:${"a".repeat(43)}`;
+    const res = await fetch(`${baseUrl}/api/instances/inst-1/host-keys/trust`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ hop: 0, fingerprint }),
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(recorded.map((event) => event.action), ["instance.trust_host_key"]);
+    assert.deepEqual(recorded[0].changes, [{ field: "sshHostKeys", before: [], after: [fingerprint] }]);
+  });
+
+  it("records a regenerated ingest token without revealing it", async () => {
+    const res = await fetch(`${baseUrl}/api/instances/inst-1/ingest-token`, { method: "POST" });
+    assert.equal(res.status, 200);
+    const { token } = await res.json();
+    assert.ok(!logged.some((line) => line.includes(token)));
+    assert.deepEqual(recorded.map((event) => event.action), ["instance.ingest_token"]);
+    assert.deepEqual(recorded[0].changes, [{ field: "ingestTokenHash", before: null, after: "[redacted]" }]);
+  });
+
+  it("ignores server-side fields in a settings update", async () => {
+    const res = await fetch(`${baseUrl}/api/instances/inst-1`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Renamed", ingestTokenHash: "forged", sshTrustOnFirstUse: true, sshHostKeys: [] }),
+    });
+    assert.equal(res.status, 200);
+    assert.equal(storedRows[0].name, "Renamed");
+    assert.equal(storedRows[0].ingestTokenHash, null);
+    assert.equal(storedRows[0].sshTrustOnFirstUse, false);
+  });
+});
+
+describe("request log", () => {
+  before(() => {
+    mock.method(db, "insert", () => ({
+      values: (values: Record<string, unknown>) => ({
+        returning: async () => [{ id: "token-1", createdAt: new Date(), lastUsedAt: null, ...values }],
+      }),
+    }));
+  });
+
+  beforeEach(() => {
+    logged = [];
+  });
+
+  it("leaves a new API token out of the log", async () => {
+    const res = await fetch(`${baseUrl}/api/tokens`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "ci", scope: "read", expiresInDays: 30 }),
+    });
+    const { token } = await res.json();
+    assert.equal(res.status, 201);
+    assert.match(logged.join("\n"), /POST \/api\/tokens 201/);
+    assert.ok(!logged.some((line) => line.includes(token)));
+  });
+
+  it("leaves invite links out of the log", async () => {
+    user = { ...viewer, id: "admin-1", username: "admin", role: "admin" } as User;
+    const invited = { ...viewer, id: "user-2", username: "newcomer", passwordHash: null, oidcSubject: null } as User;
+    mock.method(storage, "getUserByUsername", async () => undefined);
+    mock.method(storage, "getUser", async () => invited);
+    mock.method(storage, "createUser", async () => invited);
+    mock.method(storage, "updateUser", async () => invited);
+    try {
+      for (const path of ["/api/users/invite", "/api/users/user-2/invite"]) {
+        const res = await fetch(`${baseUrl}${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username: "newcomer", role: "viewer" }),
+        });
+        const { token } = await res.json();
+        assert.ok(token);
+        assert.ok(!logged.some((line) => line.includes(token)), path);
+      }
+    } finally {
+      user = viewer;
+    }
+  });
+});
@@ -1,28 +1,387 @@
 import type { Express } from "express";
 import type { Server } from "http";
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
-import { insertInstanceSchema, executionLogs, syncStatus } from "@shared/schema";
+import { eq, desc, and, gte, lte, isNull, sql } from "drizzle-orm";
+import {
+  insertInstanceSchema,
+  ingestPayloadSchema,
+  backfillRequestSchema,
+  retentionRulesPayloadSchema,
+  trustHostKeySchema,
+  instanceTestRequestSchema,
+  knownHostsImportSchema,
+  type KnownHostsImportResult,
+  retentionRules,
+  type StorageUsage,
+  type ExecutionLog,
+  executionLogs,
+  syncStatus,
+  syncRuns,
+  type SyncRunInfo,
+  type TunnelInfo,
+  loginSchema,
+  setupSchema,
+  passwordChangeSchema,
+  acceptInviteSchema,
+  inviteUserSchema,
+  updateUserSchema,
+  type AuthStatus,
+  type UserWithGrants,
+  createApiTokenSchema,
+  apiTokenScopeRoles,
+  hasRole,
+  auditEventsQuerySchema,
+  type ConnectionTestResult,
+  type N8nInstancePublic,
+} from "@shared/schema";
 import { db } from "./db";
+import { storage } from "./storage";
+import { canSeeInstance, forbidApiTokens, requireInstanceRole, requireRole, visibleInstanceIds } from "./access";
+import { createApiToken, listApiTokens, revokeApiToken, toApiTokenInfo } from "./api-tokens";
+import { ssoProviderName } from "./oidc";
+import { auditEventsToCsv, diffInstances, diffRetentionRules, listAuditEvents, listAuditEventsForExport, recordAuditEvent, toAuditEventInfo } from "./audit";
+import {
+  authenticateCredentials,
+  createInvite,
+  destroyUserSessions,
+  hashInviteToken,
+  hashPassword,
+  logIn,
+  logOut,
+  toUserPublic,
+} from "./auth";
+import { loginRetryAfterMs, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
 import {
   listInstances,
   getInstance,
   getInstancePublic,
   createInstance,
   updateInstance,
+  setIngestTokenHash,
   deleteInstance,
+  prepareInstanceUpdate,
+  draftInstance,
 } from "./instance-store";
-import { closeTunnel, testConnection } from "./tunnel-manager";
-import { triggerSyncForInstance } from "./poller";
+import { closeTunnel, forgetTunnel, getPoolForInstance, getTunnelInfo, testConnection } from "./tunnel-manager";
+import { parseKnownHosts, findKnownHostKeys, withPinnedHostKeys } from "./host-keys";
+import { runConnectionDiagnostics } from "./connection-diagnostics";
+import { testApiConnection } from "./api-source";
+import { triggerSyncForInstance, scheduleInstance, unscheduleInstance, waitForIdleSync } from "./poller";
+import { isReconcileSupported, reconcileInstance } from "./reconcile";
+import { applyRetention } from "./retention";
+import { fetchRemoteExecutionPayload, clearRemoteDetailCache } from "./remote-detail";
+import { subscribe } from "./events";
+import { omitBodyFromLog } from "./log";
+import { renormalizeStatusesInBackground, statusRulesChanged } from "./status-mapping";
+import {
+  isBackfillSupported,
+  toBackfillJobInfo,
+  getBackfillJob,
+  listBackfillJobs,
+  getActiveBackfillJob,
+  startBackfill,
+  cancelBackfill,
+} from "./backfill";
+import {
+  generateIngestToken,
+  verifyIngestToken,
+  verifyIngestSignature,
+  ingestExecutions,
+} from "./ingest";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // ─── Auth ─────────────────────────────────────────────────────
+
+  app.get("/api/auth/status", async (req, res) => {
+    try {
+      const user = req.isAuthenticated() ? toUserPublic(req.user) : null;
+      const status: AuthStatus = {
+        user,
+        setupRequired: !user && (await storage.countUsers()) === 0,
+        ssoProvider: ssoProviderName(),
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Error getting auth status:", error);
+      res.status(500).json({ error: "Failed to get auth status" });
+    }
+  });
+
+  app.post("/api/auth/setup", async (req, res) => {
+    try {
+      const parsed = setupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      if ((await storage.countUsers()) > 0) {
+        return res.status(409).json({ error: "Setup is already done" });
+      }
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: "admin",
+        lastLoginAt: new Date(),
+      });
+      await logIn(req, user);
+      res.status(201).json(toUserPublic(user));
+    } catch (error) {
+      console.error("Error creating first admin:", error);
+      res.status(500).json({ error: "Failed to create admin account" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const parsed = loginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { username, password } = parsed.data;
+      const ip = req.ip ?? "";
+      const retryAfterMs = loginRetryAfterMs(ip, username);
+      if (retryAfterMs > 0) {
+        res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+        return res.status(429).json({ error: "Too many failed login attempts; try again later" });
+      }
+      const user = await authenticateCredentials(username, password);
+      if (!user) {
+        recordLoginFailure(ip, username);
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      recordLoginSuccess(username);
+      await logIn(req, user);
+      const updated = await storage.updateUser(user.id, { lastLoginAt: new Date() });
+      res.json(toUserPublic(updated ?? user));
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await logOut(req);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error logging out:", error);
+      res.status(500).json({ error: "Failed to log out" });
+    }
+  });
+
+  // Ends the user's other sessions; this one stays logged in
+  app.post("/api/auth/password", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ error: "Not logged in" });
+      const parsed = passwordChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const user = await authenticateCredentials(req.user.username, parsed.data.currentPassword);
+      if (!user) return res.status(400).json({ error: "Current password is incorrect" });
+      await storage.updateUser(user.id, { passwordHash: await hashPassword(parsed.data.newPassword) });
+      await destroyUserSessions(user.id, req.sessionID);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ error: "Failed to change password" });
+    }
+  });
+
+  app.post("/api/auth/accept-invite", async (req, res) => {
+    try {
+      const parsed = acceptInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const invited = await storage.getUserByInviteTokenHash(hashInviteToken(parsed.data.token));
+      if (!invited || invited.disabledAt || !invited.inviteExpiresAt || invited.inviteExpiresAt < new Date()) {
+        return res.status(400).json({ error: "This invite link is invalid or has expired" });
+      }
+      const user = await storage.updateUser(invited.id, {
+        passwordHash: await hashPassword(parsed.data.password),
+        inviteTokenHash: null,
+        inviteExpiresAt: null,
+        lastLoginAt: new Date(),
+      });
+      if (!user) return res.status(400).json({ error: "This invite link is invalid or has expired" });
+      await destroyUserSessions(user.id);
+      await logIn(req, user);
+      res.json(toUserPublic(user));
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ error: "Failed to accept invite" });
+    }
+  });
+
+  // ─── Users (admin) ────────────────────────────────────────────
+
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const [users, grants] = await Promise.all([storage.listUsers(), storage.listInstanceGrants()]);
+      const result: UserWithGrants[] = users.map((user) => ({
+        ...toUserPublic(user),
+        instanceIds: grants.filter((grant) => grant.userId === user.id).map((grant) => grant.instanceId),
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error listing users:", error);
+      res.status(500).json({ error: "Failed to list users" });
+    }
+  });
+
+  app.post("/api/users/invite", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = inviteUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "A user with this name already exists" });
+      }
+      const user = await storage.createUser(parsed.data);
+      const invite = await createInvite(user.id);
+      // The invite link claims the account, so it stays out of the log
+      omitBodyFromLog(res);
+      res.status(201).json(invite);
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      res.status(500).json({ error: "Failed to invite user" });
+    }
+  });
+
+  // New link for an invite that expired or got lost; the old one stops working
+  app.post("/api/users/:id/invite", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      if (user.passwordHash || user.oidcSubject) {
+        return res.status(400).json({ error: "User has already accepted their invite" });
+      }
+      omitBodyFromLog(res);
+      res.json(await createInvite(user.id));
+    } catch (error) {
+      console.error("Error renewing invite:", error);
+      res.status(500).json({ error: "Failed to renew invite" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { role, disabled, allInstances, instanceIds } = parsed.data;
+      // Keeps at least one admin able to log in
+      if (req.params.id === req.user!.id && (role !== undefined || disabled !== undefined)) {
+        return res.status(400).json({ error: "You can't change your own role or disable yourself" });
+      }
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) return res.status(404).json({ error: "User not found" });
+      const user = await storage.updateUser(existing.id, {
+        role,
+        allInstances,
+        disabledAt: disabled === undefined ? undefined : disabled ? existing.disabledAt ?? new Date() : null,
+      });
+      if (instanceIds) {
+        // Ids of deleted instances are dropped rather than failing the save
+        const known = new Set((await listInstances()).map((inst) => inst.id));
+        await storage.setInstanceGrants(existing.id, instanceIds.filter((id) => known.has(id)));
+      }
+      if (disabled) await destroyUserSessions(existing.id);
+      res.json(user && toUserPublic(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // ─── API tokens ───────────────────────────────────────────────
+
+  app.get("/api/tokens", forbidApiTokens, async (req, res) => {
+    try {
+      const tokens = await listApiTokens(req.user!.id);
+      res.json(tokens.map(toApiTokenInfo));
+    } catch (error) {
+      console.error("Error listing API tokens:", error);
+      res.status(500).json({ error: "Failed to list API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", forbidApiTokens, async (req, res) => {
+    try {
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { name, scope, expiresInDays } = parsed.data;
+      if (!hasRole(req.user!.role, apiTokenScopeRoles[scope])) {
+        return res.status(400).json({ error: `Your role doesn't allow ${scope} tokens` });
+      }
+      // The plain token is only ever returned here, and kept out of the log
+      omitBodyFromLog(res);
+      res.status(201).json(await createApiToken(req.user!.id, name, scope, expiresInDays));
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ error: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", forbidApiTokens, async (req, res) => {
+    try {
+      const revoked = await revokeApiToken(req.user!.id, req.params.id);
+      if (!revoked) return res.status(404).json({ error: "API token not found" });
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ error: "Failed to revoke API token" });
+    }
+  });
+
+  // ─── Audit log (admin) ────────────────────────────────────────
+
+  app.get("/api/audit-events", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = auditEventsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const events = await listAuditEvents(parsed.data);
+      res.json(events.map(toAuditEventInfo));
+    } catch (error) {
+      console.error("Error listing audit events:", error);
+      res.status(500).json({ error: "Failed to list audit events" });
+    }
+  });
+
+  // Same filters as the list, without paging; ?format=json instead of CSV
+  app.get("/api/audit-events/export", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = auditEventsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const events = await listAuditEventsForExport(parsed.data);
+      const filename = `audit-events-${new Date().toISOString().slice(0, 10)}`;
+      if (req.query.format === "json") {
+        res.attachment(`${filename}.json`);
+        return res.json(events.map(toAuditEventInfo));
+      }
+      res.attachment(`${filename}.csv`);
+      res.type("text/csv").send(auditEventsToCsv(events));
+    } catch (error) {
+      console.error("Error exporting audit events:", error);
+      res.status(500).json({ error: "Failed to export audit events" });
+    }
+  });
+
   // ─── Instance CRUD ────────────────────────────────────────────
 
-  app.get("/api/instances", async (_req, res) => {
+  app.get("/api/instances", async (req, res) => {
     try {
-      const instances = await listInstances();
+      const instances = await listInstances(await visibleInstanceIds(req.user!));
       res.json(instances);
     } catch (error) {
       console.error("Error listing instances:", error);
@@ -30,7 +389,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/instances/:id", async (req, res) => {
+  app.get("/api/instances/:id", requireInstanceRole("viewer"), async (req, res) => {
     try {
       const inst = await getInstancePublic(req.params.id);
       if (!inst) return res.status(404).json({ error: "Instance not found" });
@@ -41,13 +400,20 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/instances", async (req, res) => {
+  app.post("/api/instances", requireRole("admin"), async (req, res) => {
     try {
       const parsed = insertInstanceSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors });
       }
       const inst = await createInstance(parsed.data);
+      scheduleInstance(inst, 0);
+      await recordAuditEvent(req, {
+        action: "instance.create",
+        instance: inst,
+        success: true,
+        changes: diffInstances(null, await getInstance(inst.id)),
+      });
       res.status(201).json(inst);
     } catch (error) {
       console.error("Error creating instance:", error);
@@ -55,11 +421,38 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/instances/:id", async (req, res) => {
+  app.put("/api/instances/:id", requireInstanceRole("admin"), async (req, res) => {
     try {
-      const inst = await updateInstance(req.params.id, req.body);
+      const existing = await getInstance(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Instance not found" });
+      const body = prepareInstanceUpdate(existing, req.body);
+      // Validate the merged result so e.g. switching to SSH mode requires SSH fields
+      const parsed = insertInstanceSchema.safeParse({ ...existing, ...body });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      // Only the fields sent, as validated, so columns the schema omits (like
+      // ingestTokenHash) can't be written; the trust flag is set server-side
+      const update: Record<string, unknown> = {};
+      for (const key of Object.keys(body)) {
+        if (key in parsed.data) update[key] = parsed.data[key as keyof typeof parsed.data];
+      }
+      if ("sshTrustOnFirstUse" in body) update.sshTrustOnFirstUse = body.sshTrustOnFirstUse;
+      const inst = await updateInstance(req.params.id, update);
       if (!inst) return res.status(404).json({ error: "Instance not found" });
-      closeTunnel(req.params.id);
+      await recordAuditEvent(req, {
+        action: "instance.update",
+        instance: inst,
+        success: true,
+        changes: diffInstances(existing, await getInstance(inst.id)),
+      });
+      closeTunnel(req.params.id, "Instance settings changed");
+      clearRemoteDetailCache(req.params.id);
+      scheduleInstance(inst);
+      if (statusRulesChanged(existing, inst)) {
+        // Open dashboards refresh from the live event once it's done
+        renormalizeStatusesInBackground(inst);
+      }
       res.json(inst);
     } catch (error) {
       console.error("Error updating instance:", error);
@@ -67,11 +460,20 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/instances/:id", async (req, res) => {
+  app.delete("/api/instances/:id", requireInstanceRole("admin"), async (req, res) => {
     try {
-      const deleted = await deleteInstance(req.params.id);
+      const existing = await getInstance(req.params.id);
+      const deleted = existing && await deleteInstance(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Instance not found" });
-      closeTunnel(req.params.id);
+      await recordAuditEvent(req, {
+        action: "instance.delete",
+        instance: existing,
+        success: true,
+        changes: diffInstances(existing, null),
+      });
+      forgetTunnel(req.params.id);
+      unscheduleInstance(req.params.id);
+      clearRemoteDetailCache(req.params.id);
       res.json({ ok: true });
     } catch (error) {
       console.error("Error deleting instance:", error);
@@ -79,11 +481,64 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/instances/:id/test-connection", async (req, res) => {
+  // Step-by-step diagnostics for settings from the instance form, saved or not
+  app.post("/api/instances/test", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = instanceTestRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { instanceId, hostKeys = [] } = parsed.data;
+      const existing = instanceId ? await getInstance(instanceId) : null;
+      if (instanceId && !existing) return res.status(404).json({ error: "Instance not found" });
+
+      const settings = existing
+        ? { ...existing, ...prepareInstanceUpdate(existing, parsed.data.settings) }
+        : parsed.data.settings;
+      const validated = insertInstanceSchema.safeParse(settings);
+      if (!validated.success) {
+        return res.status(400).json({ error: validated.error.errors });
+      }
+
+      let draft = draftInstance(validated.data, existing);
+      for (const { hop, fingerprint } of hostKeys) {
+        draft = { ...draft, ...withPinnedHostKeys(draft, hop, [fingerprint]) };
+      }
+      const result = await runConnectionDiagnostics(draft);
+      const failedStep = result.steps.find((step) => step.status === "failed");
+      await recordAuditEvent(req, {
+        action: "instance.test",
+        instance: { id: existing?.id ?? null, name: validated.data.name },
+        success: result.success,
+        detail: failedStep ? `${failedStep.label}: ${failedStep.detail ?? "failed"}` : null,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error running connection diagnostics:", error);
+      res.status(500).json({ error: "Failed to test connection" });
+    }
+  });
+
+  app.post("/api/instances/:id/test-connection", requireInstanceRole("operator"), async (req, res) => {
     try {
       const inst = await getInstance(req.params.id);
       if (!inst) return res.status(404).json({ error: "Instance not found" });
-      const result = await testConnection(inst);
+      let result: ConnectionTestResult;
+      if (inst.sourceType === "push") {
+        result = inst.ingestTokenHash
+          ? { success: true }
+          : { success: false, error: "No ingest token has been generated yet" };
+      } else {
+        result = inst.sourceType === "api"
+          ? await testApiConnection(inst)
+          : await testConnection(inst);
+      }
+      await recordAuditEvent(req, {
+        action: "instance.test_connection",
+        instance: inst,
+        success: result.success,
+        detail: result.error ?? null,
+      });
       res.json(result);
     } catch (error) {
       console.error("Error testing connection:", error);
@@ -91,9 +546,137 @@ export async function registerRoutes(
     }
   });
 
+  // Pins the fingerprint test-connection reported for one hop of the SSH chain
+  app.post("/api/instances/:id/host-keys/trust", requireInstanceRole("admin"), async (req, res) => {
+    try {
+      const parsed = trustHostKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const inst = await getInstance(req.params.id);
+      if (!inst) return res.status(404).json({ error: "Instance not found" });
+      if (parsed.data.hop > inst.sshJumpHosts.length) {
+        return res.status(400).json({ error: "No such hop in the SSH chain" });
+      }
+      const updated = await updateInstance(
+        inst.id,
+        withPinnedHostKeys(inst, parsed.data.hop, [parsed.data.fingerprint]),
+      );
+      await recordAuditEvent(req, {
+        action: "instance.trust_host_key",
+        instance: inst,
+        success: true,
+        changes: diffInstances(inst, await getInstance(inst.id)),
+      });
+      closeTunnel(inst.id, "Host keys changed");
+      res.json(updated);
+    } catch (error) {
+      console.error("Error trusting host key:", error);
+      res.status(500).json({ error: "Failed to trust host key" });
+    }
+  });
+
+  // Pins every hop listed in a known_hosts file; hops without an entry keep their keys
+  app.post("/api/instances/:id/host-keys/import", requireInstanceRole("admin"), async (req, res) => {
+    try {
+      const parsed = knownHostsImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const inst = await getInstance(req.params.id);
+      if (!inst) return res.status(404).json({ error: "Instance not found" });
+
+      let pinned = { sshHostKeys: inst.sshHostKeys, sshJumpHosts: inst.sshJumpHosts };
+      const entries = parseKnownHosts(parsed.data.knownHosts);
+      const hops = [
+        ...inst.sshJumpHosts.map((hop) => ({ host: hop.host, port: hop.port })),
+        { host: inst.sshHost ?? "", port: inst.sshPort },
+      ];
+      const result: KnownHostsImportResult = { hops: [] };
+      hops.forEach((hop, index) => {
+        const keys = findKnownHostKeys(entries, hop.host, hop.port);
+        result.hops.push({ hop: index, host: hop.host, port: hop.port, keys: keys.length });
+        if (keys.length > 0) pinned = withPinnedHostKeys({ ...inst, ...pinned }, index, keys);
+      });
+
+      if (result.hops.some((hop) => hop.keys > 0)) {
+        await updateInstance(inst.id, pinned);
+        await recordAuditEvent(req, {
+          action: "instance.import_known_hosts",
+          instance: inst,
+          success: true,
+          changes: diffInstances(inst, await getInstance(inst.id)),
+        });
+        closeTunnel(inst.id, "Host keys changed");
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing known_hosts:", error);
+      res.status(500).json({ error: "Failed to import known_hosts" });
+    }
+  });
+
+  app.post("/api/instances/:id/ingest-token", requireInstanceRole("admin"), async (req, res) => {
+    try {
+      const existing = await getInstance(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Instance not found" });
+      const { token, hash } = generateIngestToken();
+      const updated = await setIngestTokenHash(existing.id, hash);
+      if (!updated) return res.status(404).json({ error: "Instance not found" });
+      await recordAuditEvent(req, {
+        action: "instance.ingest_token",
+        instance: existing,
+        success: true,
+        changes: diffInstances(existing, await getInstance(existing.id)),
+      });
+      // The plain token is only ever returned here, and kept out of the log
+      omitBodyFromLog(res);
+      res.json({ token });
+    } catch (error) {
+      console.error("Error generating ingest token:", error);
+      res.status(500).json({ error: "Failed to generate ingest token" });
+    }
+  });
+
+  // ─── Push ingestion ───────────────────────────────────────────
+
+  app.post("/api/ingest/:instanceId", async (req, res) => {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader?.startsWith("Bearer ")
+        ? authHeader.slice("Bearer ".length)
+        : (req.headers["x-ingest-token"] as string | undefined);
+      // Unknown ids, other source types and bad tokens all look the same, so
+      // the endpoint can't be used to probe for instance ids
+      const inst = await getInstance(req.params.instanceId);
+      if (!inst || inst.sourceType !== "push" || !verifyIngestToken(inst, token)) {
+        return res.status(401).json({ error: "Invalid ingest token" });
+      }
+      if (!verifyIngestSignature(inst, req.rawBody, req.headers["x-signature-256"] as string | undefined)) {
+        return res.status(401).json({ error: "Invalid request signature" });
+      }
+
+      const parsed = ingestPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const executions = Array.isArray(parsed.data)
+        ? parsed.data
+        : "executions" in parsed.data
+          ? parsed.data.executions
+          : [parsed.data];
+
+      const upserted = await ingestExecutions(inst, executions);
+      res.json({ ok: true, upserted });
+    } catch (error) {
+      console.error("Error ingesting executions:", error);
+      res.status(500).json({ error: "Failed to ingest executions" });
+    }
+  });
+
   // ─── Sync endpoints ───────────────────────────────────────────
 
-  app.get("/api/sync-status", async (req, res) => {
+  app.get("/api/sync-status", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -115,6 +698,13 @@ export async function registerRoutes(
         lastSyncSuccess: row.lastSyncSuccess,
         lastSyncError: row.lastSyncError,
         lastSyncRecordCount: row.lastSyncRecordCount,
+        consecutiveFailures: row.consecutiveFailures,
+        circuitState: row.circuitState,
+        nextRetryAt: row.nextRetryAt?.toISOString() ?? null,
+        lastReconciledAt: row.lastReconciledAt?.toISOString() ?? null,
+        lastReconcileCheckedCount: row.lastReconcileCheckedCount,
+        lastReconcileMissingCount: row.lastReconcileMissingCount,
+        lastReconcileError: row.lastReconcileError,
         updatedAt: row.updatedAt.toISOString(),
       });
     } catch (error) {
@@ -123,21 +713,333 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/instances/:id/sync", async (req, res) => {
+  app.get("/api/instances/:id/sync-runs", requireInstanceRole("viewer"), async (req, res) => {
     try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const rows = await db
+        .select()
+        .from(syncRuns)
+        .where(eq(syncRuns.instanceId, req.params.id))
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(limit);
+
+      const result: SyncRunInfo[] = rows.map((r) => ({
+        id: r.id,
+        trigger: r.trigger,
+        startedAt: r.startedAt.toISOString(),
+        finishedAt: r.finishedAt?.toISOString() ?? null,
+        success: r.success,
+        rowsFetched: r.rowsFetched,
+        rowsUpserted: r.rowsUpserted,
+        bytesTransferred: r.bytesTransferred,
+        tunnelSetupMs: r.tunnelSetupMs,
+        queryMs: r.queryMs,
+        error: r.error,
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({ error: "Failed to fetch sync runs" });
+    }
+  });
+
+  app.post("/api/instances/:id/sync", requireInstanceRole("operator"), async (req, res) => {
+    let inst: N8nInstancePublic | null = null;
+    try {
+      inst = await getInstancePublic(req.params.id);
+      if (!inst) return res.status(404).json({ error: "Instance not found" });
       await triggerSyncForInstance(req.params.id);
+      await recordAuditEvent(req, { action: "instance.sync", instance: inst, success: true });
       res.json({ ok: true });
     } catch (error) {
       console.error("Error triggering sync:", error);
+      await recordAuditEvent(req, {
+        action: "instance.sync",
+        instance: inst,
+        success: false,
+        detail: error instanceof Error ? error.message : String(error),
+      });
       res.status(500).json({
         error: error instanceof Error ? error.message : "Failed to trigger sync",
       });
     }
   });
 
+  app.post("/api/instances/:id/reconcile", requireInstanceRole("operator"), async (req, res) => {
+    try {
+      const instance = await getInstance(req.params.id);
+      if (!instance) return res.status(404).json({ error: "Instance not found" });
+      if (!isReconcileSupported(instance)) {
+        return res.status(400).json({ error: "Reconciliation is disabled for this instance" });
+      }
+      const result = await reconcileInstance(instance);
+      res.json(result);
+    } catch (error) {
+      console.error("Error reconciling instance:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to reconcile instance",
+      });
+    }
+  });
+
+  // ─── Backfill ─────────────────────────────────────────────────
+
+  app.post("/api/instances/:id/backfill", requireInstanceRole("operator"), async (req, res) => {
+    try {
+      const instance = await getInstance(req.params.id);
+      if (!instance) return res.status(404).json({ error: "Instance not found" });
+      if (!isBackfillSupported(instance)) {
+        return res.status(400).json({ error: `Backfill is not supported for ${instance.sourceType} sources` });
+      }
+      const parsed = backfillRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const rangeStart = new Date(parsed.data.startDate);
+      const now = new Date();
+      const rangeEnd = parsed.data.endDate && new Date(parsed.data.endDate) < now
+        ? new Date(parsed.data.endDate)
+        : now;
+      if (rangeStart >= rangeEnd) {
+        return res.status(400).json({ error: "startDate must be in the past" });
+      }
+
+      const job = await startBackfill(instance, rangeStart, rangeEnd);
+      if (!job) {
+        const active = await getActiveBackfillJob(instance.id);
+        return res.status(409).json({
+          error: "A backfill is already running for this instance",
+          job: active ? toBackfillJobInfo(active) : null,
+        });
+      }
+      res.status(202).json(toBackfillJobInfo(job));
+    } catch (error) {
+      console.error("Error starting backfill:", error);
+      res.status(500).json({ error: "Failed to start backfill" });
+    }
+  });
+
+  app.get("/api/instances/:id/backfill", requireInstanceRole("viewer"), async (req, res) => {
+    try {
+      const jobs = await listBackfillJobs(req.params.id);
+      res.json(jobs.map(toBackfillJobInfo));
+    } catch (error) {
+      console.error("Error listing backfill jobs:", error);
+      res.status(500).json({ error: "Failed to list backfill jobs" });
+    }
+  });
+
+  app.get("/api/backfill/:jobId", async (req, res) => {
+    try {
+      const job = await getBackfillJob(req.params.jobId);
+      if (!job || !(await canSeeInstance(req.user!, job.instanceId))) {
+        return res.status(404).json({ error: "Backfill job not found" });
+      }
+      res.json(toBackfillJobInfo(job));
+    } catch (error) {
+      console.error("Error fetching backfill job:", error);
+      res.status(500).json({ error: "Failed to fetch backfill job" });
+    }
+  });
+
+  app.post("/api/backfill/:jobId/cancel", requireRole("operator"), async (req, res) => {
+    try {
+      const existing = await getBackfillJob(req.params.jobId);
+      if (!existing || !(await canSeeInstance(req.user!, existing.instanceId))) {
+        return res.status(404).json({ error: "Backfill job not found" });
+      }
+      const job = await cancelBackfill(existing.id);
+      if (!job) return res.status(404).json({ error: "Backfill job not found" });
+      res.json(toBackfillJobInfo(job));
+    } catch (error) {
+      console.error("Error canceling backfill job:", error);
+      res.status(500).json({ error: "Failed to cancel backfill job" });
+    }
+  });
+
+  // ─── Retention ────────────────────────────────────────────────
+
+  app.get("/api/instances/:id/retention-rules", requireInstanceRole("viewer"), async (req, res) => {
+    try {
+      const rules = await db
+        .select()
+        .from(retentionRules)
+        .where(eq(retentionRules.instanceId, req.params.id))
+        .orderBy(retentionRules.createdAt);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching retention rules:", error);
+      res.status(500).json({ error: "Failed to fetch retention rules" });
+    }
+  });
+
+  app.put("/api/instances/:id/retention-rules", requireInstanceRole("admin"), async (req, res) => {
+    try {
+      const instance = await getInstance(req.params.id);
+      if (!instance) return res.status(404).json({ error: "Instance not found" });
+      const parsed = retentionRulesPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const { previous, rules } = await db.transaction(async (tx) => {
+        const previous = await tx
+          .delete(retentionRules)
+          .where(eq(retentionRules.instanceId, instance.id))
+          .returning();
+        if (parsed.data.length === 0) return { previous, rules: [] };
+        const rules = await tx
+          .insert(retentionRules)
+          .values(parsed.data.map((rule) => ({ ...rule, instanceId: instance.id })))
+          .returning();
+        return { previous, rules };
+      });
+      await recordAuditEvent(req, {
+        action: "instance.retention_rules",
+        instance,
+        success: true,
+        changes: diffRetentionRules(
+          previous.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+          rules,
+        ),
+      });
+      res.json(rules);
+    } catch (error) {
+      console.error("Error saving retention rules:", error);
+      res.status(500).json({ error: "Failed to save retention rules" });
+    }
+  });
+
+  app.post("/api/instances/:id/retention/apply", requireInstanceRole("operator"), async (req, res) => {
+    try {
+      const result = await applyRetention(req.params.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error applying retention:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to apply retention",
+      });
+    }
+  });
+
+  app.get("/api/instances/:id/storage", requireInstanceRole("viewer"), async (req, res) => {
+    try {
+      const instanceId = req.params.id;
+      const result = await db.execute(sql`
+        SELECT
+          COUNT(*)::int AS row_count,
+          COUNT(*) FILTER (WHERE execution_data IS NOT NULL OR workflow_data IS NOT NULL)::int AS payload_row_count,
+          COALESCE(SUM(COALESCE(pg_column_size(execution_data), 0) + COALESCE(pg_column_size(workflow_data), 0)), 0)::bigint AS payload_bytes,
+          MIN(created_at) AS oldest_at,
+          pg_total_relation_size('execution_logs') AS table_bytes
+        FROM execution_logs
+        WHERE instance_id = ${instanceId}
+      `);
+      const row = result.rows[0] as Record<string, unknown>;
+      const [status] = await db
+        .select()
+        .from(syncStatus)
+        .where(eq(syncStatus.instanceId, instanceId));
+
+      const usage: StorageUsage = {
+        rowCount: Number(row.row_count),
+        payloadRowCount: Number(row.payload_row_count),
+        payloadBytes: Number(row.payload_bytes),
+        oldestAt: row.oldest_at ? new Date(row.oldest_at as string).toISOString() : null,
+        tableBytes: Number(row.table_bytes),
+        lastRetentionRunAt: status?.lastRetentionRunAt?.toISOString() ?? null,
+        lastRetentionPrunedCount: status?.lastRetentionPrunedCount ?? null,
+        lastRetentionDeletedCount: status?.lastRetentionDeletedCount ?? null,
+      };
+      res.json(usage);
+    } catch (error) {
+      console.error("Error fetching storage usage:", error);
+      res.status(500).json({ error: "Failed to fetch storage usage" });
+    }
+  });
+
+  // ─── Tunnels ──────────────────────────────────────────────────
+
+  app.get("/api/tunnels", async (req, res) => {
+    try {
+      const instances = await listInstances(await visibleInstanceIds(req.user!));
+      const tunnels: TunnelInfo[] = instances
+        .filter((inst) => inst.sourceType === "hooks" || inst.sourceType === "native")
+        .map((inst) => getTunnelInfo(inst.id));
+      res.json(tunnels);
+    } catch (error) {
+      console.error("Error listing tunnels:", error);
+      res.status(500).json({ error: "Failed to list tunnels" });
+    }
+  });
+
+  app.post("/api/tunnels/:instanceId/close", requireInstanceRole("operator", "instanceId"), async (req, res) => {
+    try {
+      const inst = await getInstance(req.params.instanceId);
+      if (!inst) return res.status(404).json({ error: "Instance not found" });
+      closeTunnel(inst.id, "Closed from the dashboard");
+      res.json(getTunnelInfo(inst.id));
+    } catch (error) {
+      console.error("Error closing tunnel:", error);
+      res.status(500).json({ error: "Failed to close tunnel" });
+    }
+  });
+
+  // Closes the tunnel if open and connects again, e.g. after a network change.
+  // A running sync is let finish first: closing the pool under it would fail
+  // the sync and count against the instance's circuit breaker.
+  app.post("/api/tunnels/:instanceId/reopen", requireInstanceRole("operator", "instanceId"), async (req, res) => {
+    try {
+      const inst = await getInstance(req.params.instanceId);
+      if (!inst) return res.status(404).json({ error: "Instance not found" });
+      if (inst.sourceType !== "hooks" && inst.sourceType !== "native") {
+        return res.status(400).json({ error: "This instance does not use a database connection" });
+      }
+      await waitForIdleSync(inst.id);
+      closeTunnel(inst.id, "Reopened from the dashboard");
+      await getPoolForInstance(inst);
+      res.json(getTunnelInfo(inst.id));
+    } catch (error) {
+      console.error("Error reopening tunnel:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to reopen tunnel",
+      });
+    }
+  });
+
+  // ─── Live events ──────────────────────────────────────────────
+
+  app.get("/api/events", requireInstanceRole("viewer", "query"), (req, res) => {
+    const instanceId = req.query.instanceId as string;
+    if (!instanceId) {
+      return res.status(400).json({ error: "instanceId query parameter is required" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stop reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribe(instanceId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment lines keep idle connections from being dropped by proxies
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25_000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   // ─── Execution endpoints (query local cache) ──────────────────
 
-  app.get("/api/executions", async (req, res) => {
+  app.get("/api/executions", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -151,7 +1053,10 @@ export async function registerRoutes(
       const startDate = (req.query.startDate as string)?.trim();
       const endDate = (req.query.endDate as string)?.trim();
 
-      const conditions = [eq(executionLogs.instanceId, instanceId)];
+      const conditions = [
+        eq(executionLogs.instanceId, instanceId),
+        isNull(executionLogs.deletedUpstreamAt),
+      ];
 
       if (workflowName) {
         conditions.push(eq(executionLogs.workflowName, workflowName));
@@ -199,6 +1104,7 @@ export async function registerRoutes(
           workflowId: executionLogs.workflowId,
           workflowName: executionLogs.workflowName,
           status: executionLogs.status,
+          rawStatus: executionLogs.rawStatus,
           finished: executionLogs.finished,
           startedAt: executionLogs.startedAt,
           finishedAt: executionLogs.finishedAt,
@@ -221,6 +1127,7 @@ export async function registerRoutes(
         workflow_id: r.workflowId,
         workflow_name: r.workflowName,
         status: r.status,
+        raw_status: r.rawStatus,
         finished: r.finished,
         started_at: r.startedAt?.toISOString() ?? null,
         finished_at: r.finishedAt?.toISOString() ?? null,
@@ -243,7 +1150,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/executions/:id/detail", async (req, res) => {
+  app.get("/api/executions/:id/detail", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const executionId = req.params.id;
       const instanceId = req.query.instanceId as string;
@@ -264,6 +1171,30 @@ export async function registerRoutes(
       }
 
       const r = rows[0];
+      let executionData = r.executionData;
+      let workflowData = r.workflowData;
+      let payloadSource: ExecutionLog["payload_source"] = "local";
+      let payloadError: string | null = null;
+
+      // Metadata-only instances keep no payloads locally; fetch them on demand
+      if (executionData == null && workflowData == null) {
+        const instance = await getInstance(instanceId);
+        if (instance?.storageMode === "metadata") {
+          try {
+            const remote = await fetchRemoteExecutionPayload(instance, r.executionId);
+            if (remote) {
+              executionData = remote.payload.executionData;
+              workflowData = remote.payload.workflowData;
+              payloadSource = remote.cached ? "remote-cache" : "remote";
+            } else {
+              payloadError = "Execution no longer exists on the remote";
+            }
+          } catch (err) {
+            payloadError = err instanceof Error ? err.message : String(err);
+          }
+        }
+      }
+
       // Send manually to avoid double-serializing large JSONB via res.json() override
       const payload = JSON.stringify({
         id: r.id,
@@ -271,6 +1202,7 @@ export async function registerRoutes(
         workflow_id: r.workflowId,
         workflow_name: r.workflowName,
         status: r.status,
+        raw_status: r.rawStatus,
         finished: r.finished,
         started_at: r.startedAt?.toISOString() ?? null,
         finished_at: r.finishedAt?.toISOString() ?? null,
@@ -278,8 +1210,12 @@ export async function registerRoutes(
         mode: r.mode,
         node_count: r.nodeCount,
         error_message: r.errorMessage,
-        execution_data: r.executionData,
-        workflow_data: r.workflowData,
+        execution_data: executionData,
+        workflow_data: workflowData,
+        payload_pruned_at: r.payloadPrunedAt?.toISOString() ?? null,
+        payload_source: payloadSource,
+        payload_error: payloadError,
+        extra: r.extra as Record<string, unknown> | null,
         created_at: r.createdAt.toISOString(),
       });
       res.setHeader("Content-Type", "application/json");
@@ -292,7 +1228,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/executions/stats", async (req, res) => {
+  app.get("/api/executions/stats", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -304,7 +1240,7 @@ export async function registerRoutes(
       const startDate = (req.query.startDate as string)?.trim();
       const endDate = (req.query.endDate as string)?.trim();
 
-      const conditions = [sql`instance_id = ${instanceId}`];
+      const conditions = [sql`instance_id = ${instanceId}`, sql`deleted_upstream_at IS NULL`];
       if (workflowName) conditions.push(sql`workflow_name = ${workflowName}`);
       if (status) conditions.push(sql`status = ${status}`);
       if (startDate) conditions.push(sql`created_at >= ${new Date(startDate)}`);
@@ -351,7 +1287,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/executions/daily", async (req, res) => {
+  app.get("/api/executions/daily", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -366,6 +1302,7 @@ export async function registerRoutes(
 
       const conditions = [
         sql`instance_id = ${instanceId}`,
+        sql`deleted_upstream_at IS NULL`,
         sql`created_at >= NOW() - MAKE_INTERVAL(days => ${days})`,
       ];
       if (workflowName) conditions.push(sql`workflow_name = ${workflowName}`);
@@ -425,7 +1362,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/executions/workflows", async (req, res) => {
+  app.get("/api/executions/workflows", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -437,7 +1374,7 @@ export async function registerRoutes(
       const startDate = (req.query.startDate as string)?.trim();
       const endDate = (req.query.endDate as string)?.trim();
 
-      const conditions = [sql`instance_id = ${instanceId}`];
+      const conditions = [sql`instance_id = ${instanceId}`, sql`deleted_upstream_at IS NULL`];
       if (workflowName) conditions.push(sql`workflow_name = ${workflowName}`);
       if (status) conditions.push(sql`status = ${status}`);
       if (startDate) conditions.push(sql`created_at >= ${new Date(startDate)}`);
@@ -469,17 +1406,17 @@ export async function registerRoutes(
 
   // Debug endpoint — only available in development
   if (process.env.NODE_ENV !== "production") {
-    app.get("/api/debug/status-values", async (req, res) => {
+    app.get("/api/debug/status-values", requireInstanceRole("viewer", "query"), async (req, res) => {
       try {
         const instanceId = req.query.instanceId as string;
         if (!instanceId) {
           return res.status(400).json({ error: "instanceId query parameter is required" });
         }
         const result = await db.execute(sql`
-          SELECT status, COUNT(*)::int AS count
+          SELECT status, raw_status, COUNT(*)::int AS count
           FROM execution_logs
           WHERE instance_id = ${instanceId}
-          GROUP BY status
+          GROUP BY status, raw_status
           ORDER BY count DESC
         `);
         res.json(result.rows);
@@ -490,7 +1427,7 @@ export async function registerRoutes(
     });
   }
 
-  app.get("/api/workflow-names", async (req, res) => {
+  app.get("/api/workflow-names", requireInstanceRole("viewer", "query"), async (req, res) => {
     try {
       const instanceId = req.query.instanceId as string;
       if (!instanceId) {
@@ -500,7 +1437,7 @@ export async function registerRoutes(
       const rows = await db
         .selectDistinct({ name: executionLogs.workflowName })
         .from(executionLogs)
-        .where(eq(executionLogs.instanceId, instanceId))
+        .where(and(eq(executionLogs.instanceId, instanceId), isNull(executionLogs.deletedUpstreamAt)))
         .orderBy(executionLogs.workflowName);
 
       res.json(rows.map((r) => r.name));
@@ -0,0 +1,79 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+
+// secrets.ts reads its keys at load time, so each case loads its own copy
+type Secrets = typeof import("./secrets");
+let loads = 0;
+
+async function loadSecrets(master: string | undefined, previous?: string): Promise<Secrets> {
+  if (master === undefined) delete process.env.SECRETS_MASTER_KEY;
+  else process.env.SECRETS_MASTER_KEY = master;
+  if (previous === undefined) delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+  else process.env.SECRETS_MASTER_KEY_PREVIOUS = previous;
+  return import(`./secrets.ts?load=${++loads}`);
+}
+
+const newKey = () => crypto.randomBytes(32).toString("base64");
+
+afterEach(() => {
+  delete process.env.SECRETS_MASTER_KEY;
+  delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+});
+
+describe("secrets", () => {
+  it("round-trips a value through a fresh data key each time", async () => {
+    const secrets = await loadSecrets(newKey());
+    const first = secrets.encryptSecret("hunter2");
+    const second = secrets.encryptSecret("hunter2");
+    assert.ok(secrets.isEncryptedSecret(first));
+    assert.ok(!first.includes("hunter2"));
+    assert.notEqual(first, second);
+    assert.equal(secrets.decryptSecret(first), "hunter2");
+    assert.equal(secrets.needsReencryption(first), false);
+  });
+
+  it("accepts a hex master key and rejects one of the wrong length", async () => {
+    const secrets = await loadSecrets(crypto.randomBytes(32).toString("hex"));
+    assert.equal(secrets.decryptSecret(secrets.encryptSecret("x")), "x");
+    await assert.rejects(loadSecrets(crypto.randomBytes(16).toString("base64")), /must be 32 bytes/);
+  });
+
+  it("passes plaintext from before encryption through and marks it for re-encryption", async () => {
+    const secrets = await loadSecrets(newKey());
+    assert.equal(secrets.decryptSecret("plain password"), "plain password");
+    assert.equal(secrets.needsReencryption("plain password"), true);
+  });
+
+  it("detects tampering", async () => {
+    const secrets = await loadSecrets(newKey());
+    const sealed = secrets.encryptSecret("hunter2");
+    const ciphertext = Buffer.from(sealed.split(":").pop()!, "base64");
+    ciphertext[ciphertext.length - 1] ^= 1;
+    const tampered = sealed.replace(/[^:]+$/, ciphertext.toString("base64"));
+    assert.throws(() => secrets.decryptSecret(tampered));
+  });
+
+  it("decrypts with the previous key during a rotation and asks for re-encryption", async () => {
+    const oldKey = newKey();
+    const before = (await loadSecrets(oldKey)).encryptSecret("hunter2");
+
+    const rotating = await loadSecrets(newKey(), oldKey);
+    assert.equal(rotating.decryptSecret(before), "hunter2");
+    assert.equal(rotating.needsReencryption(before), true);
+
+    const after = await loadSecrets(newKey());
+    assert.throws(() => after.decryptSecret(before), /neither SECRETS_MASTER_KEY nor SECRETS_MASTER_KEY_PREVIOUS/);
+  });
+
+  it("stores plaintext while no master key is set", async () => {
+    const encrypted = (await loadSecrets(newKey())).encryptSecret("hunter2");
+
+    const secrets = await loadSecrets(undefined);
+    assert.equal(secrets.isEncryptionEnabled(), false);
+    assert.equal(secrets.encryptSecret("hunter2"), "hunter2");
+    assert.equal(secrets.decryptSecret("hunter2"), "hunter2");
+    assert.equal(secrets.needsReencryption("hunter2"), false);
+    assert.throws(() => secrets.decryptSecret(encrypted), /SECRETS_MASTER_KEY is not set/);
+  });
+});
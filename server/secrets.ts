@@ -0,0 +1,109 @@
+import crypto from "crypto";
+
+// Envelope encryption for instance credentials: every value gets its own
+// random data key (AES-256-GCM), and that data key is wrapped with the master
+// key from SECRETS_MASTER_KEY. Stored as
+//   enc:v1:<master key id>:<wrapped data key>:<ciphertext>
+// where both blobs are base64 of iv | auth tag | ciphertext.
+//
+// To rotate, set SECRETS_MASTER_KEY to the new key and
+// SECRETS_MASTER_KEY_PREVIOUS to the old one, then run `npm run secrets:rotate`
+// (startup does the same for rows that still need it).
+//
+// Without SECRETS_MASTER_KEY, credentials are stored in plaintext as they were
+// before encryption existed, so an upgrade keeps working until a key is set;
+// the next startup then encrypts them.
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(name: string, value: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes, base64 or hex encoded (e.g. \`openssl rand -base64 32\`)`);
+  }
+  // Short, non-reversible id so a stored value names the key it needs
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 12);
+  return { id, key };
+}
+
+const currentKey = process.env.SECRETS_MASTER_KEY
+  ? parseMasterKey("SECRETS_MASTER_KEY", process.env.SECRETS_MASTER_KEY)
+  : null;
+const previousKey = process.env.SECRETS_MASTER_KEY_PREVIOUS
+  ? parseMasterKey("SECRETS_MASTER_KEY_PREVIOUS", process.env.SECRETS_MASTER_KEY_PREVIOUS)
+  : null;
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/** False while SECRETS_MASTER_KEY is unset and credentials are kept in plaintext. */
+export function isEncryptionEnabled(): boolean {
+  return currentKey !== null;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/** True for plaintext left from before encryption, and for values wrapped
+ *  with a master key other than the current one. Never true without a master key. */
+export function needsReencryption(value: string): boolean {
+  if (!currentKey) return false;
+  if (!isEncryptedSecret(value)) return true;
+  return value.slice(PREFIX.length).split(":")[0] !== currentKey.id;
+}
+
+export function encryptSecret(plaintext: string): string {
+  if (!currentKey) return plaintext;
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(currentKey.key, dataKey);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf-8"));
+  return `${PREFIX}${currentKey.id}:${wrappedKey}:${ciphertext}`;
+}
+
+/** Decrypts a stored value. Plaintext from before encryption was introduced
+ *  is returned unchanged until the rotation re-encrypts it. */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  const master = [currentKey, previousKey].find((candidate) => candidate?.id === keyId);
+  if (!master) {
+    if (!currentKey) {
+      throw new Error(`Secret is encrypted with master key ${keyId}, but SECRETS_MASTER_KEY is not set`);
+    }
+    throw new Error(`Secret is encrypted with master key ${keyId}, which is neither SECRETS_MASTER_KEY nor SECRETS_MASTER_KEY_PREVIOUS`);
+  }
+  const dataKey = open(master.key, wrappedKey);
+  return open(dataKey, ciphertext).toString("utf-8");
+}
+
+/** Stable secrets for another purpose (e.g. signing session cookies),
+ *  derived from the current master key and, during a rotation, the previous
+ *  one: sign with the first, accept any. Empty without a master key. */
+export function deriveSecrets(purpose: string): string[] {
+  return [currentKey, previousKey]
+    .filter((master): master is MasterKey => master !== null)
+    .map((master) => crypto.createHmac("sha256", master.key).update(purpose).digest("base64"));
+}
@@ -0,0 +1,77 @@
+import { and, eq, notInArray, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  builtInStatusMap,
+  executionLogs,
+  executionStatuses,
+  n8nInstances,
+  type N8nInstance,
+  type StatusRules,
+} from "@shared/schema";
+import { publishRefresh } from "./events";
+import { log } from "./log";
+
+/** The SQL counterpart of normalizeStatus for the given raw status expression. */
+function normalizedStatusSql(raw: SQL, rules: StatusRules): SQL {
+  const branches = [
+    ...rules.statusMappings.map((rule) => [rule.raw.toLowerCase().trim(), rule.status] as const),
+    ...Object.entries(builtInStatusMap),
+  ].map(([from, to]) => sql`WHEN ${from} THEN ${to}`);
+  return sql`CASE LOWER(TRIM(${raw})) ${sql.join(branches, sql` `)} ELSE ${rules.unknownStatus} END`;
+}
+
+/** True when an update changes how the instance's raw statuses map. */
+export function statusRulesChanged(before: StatusRules, after: StatusRules): boolean {
+  return before.unknownStatus !== after.unknownStatus ||
+    JSON.stringify(before.statusMappings) !== JSON.stringify(after.statusMappings);
+}
+
+/** Re-applies the instance's status rules to its stored executions, from the
+ *  raw status where it was kept. Rows synced before raw_status existed only
+ *  have their normalized status, so a rule for a custom raw status can't
+ *  reach them. With `legacyOnly`, only rows whose status was stored
+ *  unnormalized are touched. Returns the number of rows changed. */
+export async function renormalizeStatuses(
+  instance: Pick<N8nInstance, "id"> & StatusRules,
+  { legacyOnly = false } = {},
+): Promise<number> {
+  const raw = sql`COALESCE(${executionLogs.rawStatus}, ${executionLogs.status})`;
+  const normalized = normalizedStatusSql(raw, instance);
+  const conditions = [
+    eq(executionLogs.instanceId, instance.id),
+    sql`${executionLogs.status} IS DISTINCT FROM ${normalized}`,
+  ];
+  if (legacyOnly) conditions.push(notInArray(executionLogs.status, [...executionStatuses]));
+
+  const result = await db
+    .update(executionLogs)
+    .set({ status: normalized, rawStatus: raw })
+    .where(and(...conditions));
+
+  const changed = result.rowCount ?? 0;
+  if (changed > 0) publishRefresh(instance.id);
+  return changed;
+}
+
+/** Re-applies changed status rules without holding up the request that saved
+ *  them; can take a while on a large cache. */
+export function renormalizeStatusesInBackground(instance: Pick<N8nInstance, "id"> & StatusRules): void {
+  renormalizeStatuses(instance)
+    .then((changed) => log(`Re-normalized ${changed} rows of ${instance.id}`, "status-mapping"))
+    .catch((err) => log(`Failed to re-normalize statuses of ${instance.id}: ${err instanceof Error ? err.message : err}`, "status-mapping"));
+}
+
+/** Normalizes rows stored with a raw status before normalizeStatus() was
+ *  applied on ingest. Runs once at startup, with each instance's rules. */
+export async function normalizeExistingStatuses(): Promise<void> {
+  const instances = await db
+    .select({ id: n8nInstances.id, statusMappings: n8nInstances.statusMappings, unknownStatus: n8nInstances.unknownStatus })
+    .from(n8nInstances);
+  let total = 0;
+  for (const instance of instances) {
+    total += await renormalizeStatuses(instance, { legacyOnly: true });
+  }
+  if (total > 0) {
+    log(`Normalized ${total} rows with non-canonical status values`, "status-mapping");
+  }
+}
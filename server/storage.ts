@@ -1,38 +1,86 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
-
-// modify the interface with any CRUD methods
-// you might need
+import { and, asc, count, eq } from "drizzle-orm";
+import { db } from "./db";
+import { instanceGrants, users, type InstanceGrant, type User, type InsertUser } from "@shared/schema";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByInviteTokenHash(hash: string): Promise<User | undefined>;
+  getUserByOidcIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  listUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
+  listInstanceGrants(): Promise<InstanceGrant[]>;
+  getGrantedInstanceIds(userId: string): Promise<string[]>;
+  setInstanceGrants(userId: string, instanceIds: string[]): Promise<void>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+export class DatabaseStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
 
-  constructor() {
-    this.users = new Map();
+  async getUserByInviteTokenHash(hash: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.inviteTokenHash, hash));
+    return user;
   }
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  async getUserByOidcIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.oidcIssuer, issuer), eq(users.oidcSubject, subject)));
+    return user;
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(users);
+    return row.count;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    if (Object.values(data).every((value) => value === undefined)) return this.getUser(id);
+    const [user] = await db.update(users).set(data).where(eq(users.id, id)).returning();
     return user;
   }
+
+  async listInstanceGrants(): Promise<InstanceGrant[]> {
+    return db.select().from(instanceGrants);
+  }
+
+  async getGrantedInstanceIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ instanceId: instanceGrants.instanceId })
+      .from(instanceGrants)
+      .where(eq(instanceGrants.userId, userId));
+    return rows.map((row) => row.instanceId);
+  }
+
+  async setInstanceGrants(userId: string, instanceIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(instanceGrants).where(eq(instanceGrants.userId, userId));
+      if (instanceIds.length === 0) return;
+      await tx
+        .insert(instanceGrants)
+        .values(Array.from(new Set(instanceIds), (instanceId) => ({ userId, instanceId })));
+    });
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = new DatabaseStorage();
@@ -0,0 +1,6 @@
+import crypto from "crypto";
+
+// Imported first by tests whose modules read configuration at load time. The
+// database URL points nowhere: tests never reach the local config database.
+process.env.DATABASE_URL ??= "postgres://test@127.0.0.1:1/test";
+process.env.SECRETS_MASTER_KEY ??= crypto.randomBytes(32).toString("base64");
@@ -0,0 +1,122 @@
+import "./test-env";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import ssh2 from "ssh2";
+import type { N8nInstance } from "@shared/schema";
+import { HostKeyVerificationError, fingerprintHostKey } from "./host-keys";
+import { closeSshClients, connectSshChain } from "./tunnel-manager";
+
+// ssh2 is CommonJS and Node can't name its server exports statically
+const { Server, utils } = ssh2;
+
+// Two local SSH servers taking the password "secret": a bastion that forwards
+// connections, and the SSH host behind it
+interface MockSshServer {
+  server: InstanceType<typeof Server>;
+  port: number;
+  fingerprint: string;
+}
+
+const servers: MockSshServer[] = [];
+
+async function startSshServer(): Promise<MockSshServer> {
+  const keys = utils.generateKeyPairSync("ed25519");
+  const server = new Server({ hostKeys: [keys.private] }, (client) => {
+    client.on("error", () => {});
+    client.on("authentication", (ctx) => {
+      if (ctx.method === "password" && ctx.password === "secret") ctx.accept();
+      else ctx.reject(["password"]);
+    });
+    client.on("tcpip", (accept, _reject, info) => {
+      const stream = accept();
+      const socket = net.connect(info.destPort, info.destIP);
+      socket.on("error", () => stream.destroy());
+      stream.pipe(socket).pipe(stream);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const fingerprint = fingerprintHostKey(Buffer.from(keys.public.split(" ")[1], "base64"));
+  const mock = { server, port: (server.address() as AddressInfo).port, fingerprint };
+  servers.push(mock);
+  return mock;
+}
+
+let bastion: MockSshServer;
+let host: MockSshServer;
+
+before(async () => {
+  bastion = await startSshServer();
+  host = await startSshServer();
+});
+
+after(() => {
+  for (const { server } of servers) server.close();
+});
+
+function instance(hostKeys: string[], jumpHostKeys: string[] | null = null): N8nInstance {
+  return {
+    sshHost: "127.0.0.1",
+    sshPort: host.port,
+    sshUser: "n8n",
+    sshAuthMethod: "password",
+    sshPassword: "secret",
+    sshHostKeys: hostKeys,
+    sshJumpHosts: jumpHostKeys === null ? [] : [{
+      host: "127.0.0.1",
+      port: bastion.port,
+      user: "jump",
+      authMethod: "password",
+      password: "secret",
+      hostKeys: jumpHostKeys,
+    }],
+  } as unknown as N8nInstance;
+}
+
+describe("connectSshChain", () => {
+  it("connects when every hop presents a pinned key", async () => {
+    const clients = await connectSshChain(instance([host.fingerprint], [bastion.fingerprint]));
+    assert.equal(clients.length, 2);
+    closeSshClients(clients);
+  });
+
+  it("refuses an unknown host key and reports it for confirmation", async () => {
+    await assert.rejects(connectSshChain(instance([])), (err) => {
+      assert.ok(err instanceof HostKeyVerificationError);
+      assert.deepEqual(
+        { hop: err.prompt.hop, fingerprint: err.prompt.fingerprint, status: err.prompt.status },
+        { hop: 0, fingerprint: host.fingerprint, status: "unknown" },
+      );
+      return true;
+    });
+  });
+
+  it("refuses a key that doesn't match the pinned one, even on first use", async () => {
+    const seen: number[] = [];
+    await assert.rejects(
+      connectSshChain(instance([bastion.fingerprint]), (hop) => seen.push(hop)),
+      (err) => err instanceof HostKeyVerificationError && err.prompt.status === "mismatch",
+    );
+    assert.deepEqual(seen, []);
+  });
+
+  it("names the jump host whose key was refused", async () => {
+    await assert.rejects(connectSshChain(instance([host.fingerprint], [])), (err) => {
+      assert.ok(err instanceof HostKeyVerificationError);
+      assert.equal(err.prompt.hop, 0);
+      assert.match(err.message, /Jump host 1/);
+      return true;
+    });
+  });
+
+  it("accepts and reports the keys of unpinned hops when trusting on first use", async () => {
+    const learned: Array<[number, string]> = [];
+    const clients = await connectSshChain(
+      instance([], [bastion.fingerprint]),
+      (hop, fingerprint) => learned.push([hop, fingerprint]),
+    );
+    closeSshClients(clients);
+    assert.deepEqual(learned, [[1, host.fingerprint]]);
+  });
+});
@@ -1,20 +1,36 @@
-import { Client as SSHClient } from "ssh2";
+import { Client as SSHClient, type ConnectConfig } from "ssh2";
 import net from "net";
 import pg from "pg";
 import fs from "fs";
-import type { N8nInstance } from "@shared/schema";
+import type { Duplex } from "stream";
+import type { ConnectionTestResult, HostKeyPrompt, N8nInstance, SshJumpHost, TunnelInfo } from "@shared/schema";
+import { HostKeyVerificationError, fingerprintHostKey, hostKeyType } from "./host-keys";
+import { checkHooksTable, hooksTableFor } from "./hooks-source";
+import { pinFirstUseHostKeys } from "./instance-store";
+
+/** Bytes piped through a local forwarder, in each direction. */
+export interface ForwardedBytes {
+  toDb: number;
+  fromDb: number;
+}
 
 interface TunnelEntry {
   pool: pg.Pool;
-  sshClient: SSHClient;
-  localServer: net.Server;
-  localPort: number;
+  // Jump hosts first, the SSH host last; empty for direct connections,
+  // which have no SSH hop or local forwarder
+  sshClients: SSHClient[];
+  localServer: net.Server | null;
+  localPort: number | null;
+  forwarded: ForwardedBytes | null;
   idleTimer: ReturnType<typeof setTimeout> | null;
+  openedAt: number;
   lastUsed: number;
 }
 
 const tunnels = new Map<string, TunnelEntry>();
 const pendingTunnels = new Map<string, Promise<TunnelEntry>>();
+// Why and when each instance's tunnel last closed (or failed to open)
+const lastClosed = new Map<string, { at: number; reason: string }>();
 const IDLE_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
 
 function resetIdleTimer(id: string) {
@@ -24,93 +40,333 @@ function resetIdleTimer(id: string) {
   entry.lastUsed = Date.now();
   entry.idleTimer = setTimeout(() => {
     console.log(`[tunnel-manager] Idle timeout for instance ${id}, closing tunnel`);
-    closeTunnel(id);
+    closeTunnel(id, "Idle timeout");
   }, IDLE_TIMEOUT_MS);
 }
 
-function createTunnel(instance: N8nInstance): Promise<TunnelEntry> {
+/** TLS options for the pg client. With an SSH tunnel the socket targets
+ *  127.0.0.1, so the certificate is checked against dbHost via servername. */
+export function buildSslConfig(instance: N8nInstance): pg.ConnectionConfig["ssl"] {
+  switch (instance.dbSslMode) {
+    case "require":
+      return { rejectUnauthorized: false };
+    case "verify-full":
+      return {
+        rejectUnauthorized: true,
+        ca: instance.dbSslCaCert || undefined,
+        servername: instance.dbHost,
+      };
+    default:
+      return false;
+  }
+}
+
+// One SSH connection in the chain; the instance's own SSH host is the last hop
+export type SshHop = SshJumpHost;
+
+export function sshHopsFor(instance: N8nInstance): SshHop[] {
+  return [
+    ...(instance.sshJumpHosts ?? []),
+    {
+      host: instance.sshHost ?? "",
+      port: instance.sshPort,
+      user: instance.sshUser ?? "",
+      authMethod: instance.sshAuthMethod,
+      privateKeyPath: instance.sshPrivateKeyPath,
+      privateKey: instance.sshPrivateKey,
+      passphrase: instance.sshPassphrase,
+      password: instance.sshPassword,
+      hostKeys: instance.sshHostKeys,
+    },
+  ];
+}
+
+function readPrivateKey(path: string | null | undefined): string {
+  if (!path) {
+    throw new Error("No SSH private key or key path is configured");
+  }
+  try {
+    return fs.readFileSync(path, "utf-8");
+  } catch (err) {
+    throw new Error(`Failed to read SSH private key at ${path}: ${err}`);
+  }
+}
+
+/** The key of a key-auth hop: the pasted key if any, else the file at privateKeyPath. */
+export function loadPrivateKey(hop: SshHop): string {
+  return hop.privateKey || readPrivateKey(hop.privateKeyPath);
+}
+
+function buildAuthConfig(hop: SshHop): Partial<ConnectConfig> {
+  switch (hop.authMethod) {
+    case "agent":
+      if (!process.env.SSH_AUTH_SOCK) {
+        throw new Error("ssh-agent authentication needs SSH_AUTH_SOCK to be set for the dashboard process");
+      }
+      return { agent: process.env.SSH_AUTH_SOCK };
+    case "password":
+      if (!hop.password) throw new Error("SSH password is not configured");
+      return { password: hop.password };
+    default:
+      return {
+        privateKey: loadPrivateKey(hop),
+        passphrase: hop.passphrase || undefined,
+      };
+  }
+}
+
+/** Reports a key accepted on first use from a hop with none pinned. */
+export type FirstUseHandler = (hop: number, fingerprint: string) => void;
+
+/** Opens one SSH connection, optionally over a stream forwarded by the
+ *  previous hop. The host key must match one of the hop's pinned fingerprints,
+ *  which is checked before any credentials are sent; with `onFirstUse`, a hop
+ *  without pinned keys accepts the key it presents instead. */
+function connectHop(
+  hop: SshHop,
+  index: number,
+  label: string,
+  sock?: Duplex,
+  onFirstUse?: FirstUseHandler,
+): Promise<SSHClient> {
   return new Promise((resolve, reject) => {
-    const sshClient = new SSHClient();
-    let privateKey: string;
+    const client = new SSHClient();
+    const pinned = hop.hostKeys ?? [];
+    let ready = false;
+    let rejectedKey: HostKeyPrompt | null = null;
+
+    client.once("ready", () => {
+      ready = true;
+      resolve(client);
+    });
+    client.on("error", (err) => {
+      if (ready) return;
+      reject(rejectedKey ? new HostKeyVerificationError(rejectedKey, label) : err);
+    });
 
     try {
-      privateKey = fs.readFileSync(instance.sshPrivateKeyPath, "utf-8");
+      client.connect({
+        host: hop.host,
+        port: hop.port,
+        username: hop.user,
+        sock,
+        hostVerifier: (key: Buffer) => {
+          const fingerprint = fingerprintHostKey(key);
+          if (pinned.includes(fingerprint)) return true;
+          if (pinned.length === 0 && onFirstUse) {
+            onFirstUse(index, fingerprint);
+            return true;
+          }
+          rejectedKey = {
+            hop: index,
+            host: hop.host,
+            port: hop.port,
+            keyType: hostKeyType(key),
+            fingerprint,
+            status: pinned.length > 0 ? "mismatch" : "unknown",
+          };
+          return false;
+        },
+        readyTimeout: 30000,
+        keepaliveInterval: 15000,
+        keepaliveCountMax: 3,
+        ...buildAuthConfig(hop),
+      });
     } catch (err) {
-      return reject(new Error(`Failed to read SSH private key at ${instance.sshPrivateKeyPath}: ${err}`));
+      // ssh2 throws synchronously for keys it can't parse, e.g. an encrypted key without passphrase
+      reject(err);
     }
+  });
+}
 
-    sshClient.on("ready", () => {
-      // Create a local TCP server that forwards connections through the SSH tunnel
-      const localServer = net.createServer((socket) => {
-        sshClient.forwardOut(
-          "127.0.0.1",
-          0,
-          instance.dbHost,
-          instance.dbPort,
-          (err, stream) => {
-            if (err) {
-              console.error(`[tunnel-manager] Forward error for instance ${instance.id}:`, err);
-              socket.destroy();
-              return;
-            }
-            socket.pipe(stream).pipe(socket);
-          }
-        );
-      });
+export function forwardOut(client: SSHClient, host: string, port: number): Promise<Duplex> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut("127.0.0.1", 0, host, port, (err, stream) => {
+      if (err) reject(err);
+      else resolve(stream);
+    });
+  });
+}
 
-      localServer.listen(0, "127.0.0.1", () => {
-        const addr = localServer.address() as net.AddressInfo;
-        const localPort = addr.port;
-
-        const pool = new pg.Pool({
-          host: "127.0.0.1",
-          port: localPort,
-          database: instance.dbName,
-          user: instance.dbUser,
-          password: instance.dbPassword,
-          max: 5,
-          idleTimeoutMillis: 30000,
-        });
-
-        const entry: TunnelEntry = {
-          pool,
-          sshClient,
-          localServer,
-          localPort,
-          idleTimer: null,
-          lastUsed: Date.now(),
-        };
-
-        resolve(entry);
-      });
+/** Connects through the instance's jump hosts to its SSH host. Returns every
+ *  client in the chain, the SSH host last; on failure the hops already up are
+ *  closed and the error names the hop that failed. */
+export async function connectSshChain(instance: N8nInstance, onFirstUse?: FirstUseHandler): Promise<SSHClient[]> {
+  const hops = sshHopsFor(instance);
+  const clients: SSHClient[] = [];
+  let sock: Duplex | undefined;
+
+  try {
+    for (let i = 0; i < hops.length; i++) {
+      const hop = hops[i];
+      const label = i < hops.length - 1 ? `Jump host ${i + 1} (${hop.host})` : `SSH host ${hop.host}`;
+      try {
+        clients.push(await connectHop(hop, i, label, sock, onFirstUse));
+        const next = hops[i + 1];
+        if (next) sock = await forwardOut(clients[i], next.host, next.port);
+      } catch (err) {
+        if (err instanceof HostKeyVerificationError) throw err;
+        throw new Error(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return clients;
+  } catch (err) {
+    closeSshClients(clients);
+    throw err;
+  }
+}
+
+export function closeSshClients(clients: SSHClient[]): void {
+  // Innermost first, so each connection closes before the one carrying it
+  for (const client of [...clients].reverse()) {
+    try { client.end(); } catch {}
+  }
+}
+
+/** Listens on a random local port and forwards each connection to dbHost:dbPort
+ *  through the SSH host, counting the bytes piped into `forwarded` if given. */
+export function startLocalForwarder(
+  instance: N8nInstance,
+  sshClient: SSHClient,
+  forwarded?: ForwardedBytes,
+): Promise<net.Server> {
+  return new Promise((resolve, reject) => {
+    const localServer = net.createServer((socket) => {
+      sshClient.forwardOut(
+        "127.0.0.1",
+        0,
+        instance.dbHost,
+        instance.dbPort,
+        (err, stream) => {
+          if (err) {
+            console.error(`[tunnel-manager] Forward error for instance ${instance.id}:`, err);
+            socket.destroy();
+            return;
+          }
+          if (forwarded) {
+            socket.on("data", (chunk: Buffer) => { forwarded.toDb += chunk.length; });
+            stream.on("data", (chunk: Buffer) => { forwarded.fromDb += chunk.length; });
+          }
+          socket.pipe(stream).pipe(socket);
+        }
+      );
+    });
 
+    localServer.once("error", reject);
+    localServer.listen(0, "127.0.0.1", () => {
+      localServer.off("error", reject);
       localServer.on("error", (err) => {
         console.error(`[tunnel-manager] Local server error for instance ${instance.id}:`, err);
-        reject(err);
       });
+      resolve(localServer);
     });
+  });
+}
+
+function createDirectEntry(instance: N8nInstance): TunnelEntry {
+  const pool = new pg.Pool({
+    host: instance.dbHost,
+    port: instance.dbPort,
+    database: instance.dbName ?? undefined,
+    user: instance.dbUser ?? undefined,
+    password: instance.dbPassword ?? undefined,
+    ssl: buildSslConfig(instance),
+    max: 5,
+    idleTimeoutMillis: 30000,
+  });
+
+  pool.on("error", (err) => {
+    console.error(`[tunnel-manager] Pool error for instance ${instance.id}:`, err);
+  });
 
-    sshClient.on("error", (err) => {
+  return {
+    pool,
+    sshClients: [],
+    localServer: null,
+    localPort: null,
+    forwarded: null,
+    idleTimer: null,
+    openedAt: Date.now(),
+    lastUsed: Date.now(),
+  };
+}
+
+async function createTunnel(instance: N8nInstance): Promise<TunnelEntry> {
+  if (instance.connectionType === "direct") {
+    return createDirectEntry(instance);
+  }
+
+  // Instances saved before host keys were pinned trust what their first
+  // connection presents; see sshTrustOnFirstUse
+  const learned: Array<{ hop: number; fingerprint: string }> = [];
+  const sshClients = await connectSshChain(
+    instance,
+    instance.sshTrustOnFirstUse ? (hop, fingerprint) => learned.push({ hop, fingerprint }) : undefined,
+  );
+  if (instance.sshTrustOnFirstUse) {
+    try {
+      await pinFirstUseHostKeys(instance, learned);
+    } catch (err) {
+      closeSshClients(sshClients);
+      throw err;
+    }
+    for (const { hop, fingerprint } of learned) {
+      console.log(`[tunnel-manager] Pinned host key ${fingerprint} of hop ${hop + 1} for instance ${instance.id} on first use`);
+    }
+  }
+  // Set once built. A closed or reopened tunnel's clients can still report
+  // errors and closes, which must not tear down the tunnel that replaced it.
+  let entry: TunnelEntry | null = null;
+  const closeThisTunnel = (reason: string) => {
+    if (entry && tunnels.get(instance.id) === entry) closeTunnel(instance.id, reason);
+  };
+  for (const client of sshClients) {
+    client.on("error", (err) => {
       console.error(`[tunnel-manager] SSH error for instance ${instance.id}:`, err);
-      closeTunnel(instance.id);
-      reject(err);
+      closeThisTunnel(`SSH error: ${err.message}`);
     });
-
-    sshClient.on("close", () => {
+    client.on("close", () => {
       console.log(`[tunnel-manager] SSH connection closed for instance ${instance.id}`);
-      closeTunnel(instance.id);
+      closeThisTunnel("SSH connection closed");
     });
+  }
 
-    sshClient.connect({
-      host: instance.sshHost,
-      port: instance.sshPort,
-      username: instance.sshUser,
-      privateKey,
-      readyTimeout: 30000,
-      keepaliveInterval: 15000,
-      keepaliveCountMax: 3,
-    });
+  const forwarded: ForwardedBytes = { toDb: 0, fromDb: 0 };
+  let localServer: net.Server;
+  try {
+    localServer = await startLocalForwarder(instance, sshClients[sshClients.length - 1], forwarded);
+  } catch (err) {
+    closeSshClients(sshClients);
+    throw err;
+  }
+  const localPort = (localServer.address() as net.AddressInfo).port;
+
+  const pool = new pg.Pool({
+    host: "127.0.0.1",
+    port: localPort,
+    database: instance.dbName ?? undefined,
+    user: instance.dbUser ?? undefined,
+    password: instance.dbPassword ?? undefined,
+    ssl: buildSslConfig(instance),
+    max: 5,
+    idleTimeoutMillis: 30000,
+  });
+
+  pool.on("error", (err) => {
+    console.error(`[tunnel-manager] Pool error for instance ${instance.id}:`, err);
   });
+
+  entry = {
+    pool,
+    sshClients,
+    localServer,
+    localPort,
+    forwarded,
+    idleTimer: null,
+    openedAt: Date.now(),
+    lastUsed: Date.now(),
+  };
+  return entry;
 }
 
 export async function getPoolForInstance(instance: N8nInstance): Promise<pg.Pool> {
@@ -135,6 +391,10 @@ export async function getPoolForInstance(instance: N8nInstance): Promise<pg.Pool
     return entry;
   }).catch((err) => {
     pendingTunnels.delete(instance.id);
+    lastClosed.set(instance.id, {
+      at: Date.now(),
+      reason: `Failed to open: ${err instanceof Error ? err.message : String(err)}`,
+    });
     throw err;
   });
 
@@ -143,18 +403,21 @@ export async function getPoolForInstance(instance: N8nInstance): Promise<pg.Pool
   return entry.pool;
 }
 
-export function closeTunnel(id: string): void {
+/** Closes the instance's pool and tunnel, if open. The reason is kept for
+ *  GET /api/tunnels. */
+export function closeTunnel(id: string, reason = "Closed"): void {
   const entry = tunnels.get(id);
   if (!entry) return;
 
   if (entry.idleTimer) clearTimeout(entry.idleTimer);
 
   try { entry.pool.end().catch(() => {}); } catch {}
-  try { entry.localServer.close(); } catch {}
-  try { entry.sshClient.end(); } catch {}
+  try { entry.localServer?.close(); } catch {}
+  closeSshClients(entry.sshClients);
 
   tunnels.delete(id);
-  console.log(`[tunnel-manager] Tunnel closed for instance ${id}`);
+  lastClosed.set(id, { at: Date.now(), reason });
+  console.log(`[tunnel-manager] Tunnel closed for instance ${id}: ${reason}`);
 }
 
 export function closeAllTunnels(): void {
@@ -164,75 +427,93 @@ export function closeAllTunnels(): void {
   }
 }
 
-export async function testConnection(instance: N8nInstance): Promise<{ success: boolean; error?: string }> {
-  const resources: { pool?: pg.Pool; server?: net.Server; ssh?: SSHClient } = {};
+/** Current state of the instance's pool and tunnel, for GET /api/tunnels. */
+export function getTunnelInfo(id: string): TunnelInfo {
+  const entry = tunnels.get(id);
+  const closed = lastClosed.get(id);
+  const info: TunnelInfo = {
+    instanceId: id,
+    state: entry ? "open" : pendingTunnels.has(id) ? "opening" : "closed",
+    openedAt: null,
+    lastUsedAt: null,
+    idleCloseAt: null,
+    localPort: null,
+    sshHops: 0,
+    pool: null,
+    bytesForwarded: null,
+    lastClosedAt: closed ? new Date(closed.at).toISOString() : null,
+    lastCloseReason: closed?.reason ?? null,
+  };
+  if (!entry) return info;
+
+  return {
+    ...info,
+    openedAt: new Date(entry.openedAt).toISOString(),
+    lastUsedAt: new Date(entry.lastUsed).toISOString(),
+    idleCloseAt: new Date(entry.lastUsed + IDLE_TIMEOUT_MS).toISOString(),
+    localPort: entry.localPort,
+    sshHops: entry.sshClients.length,
+    pool: {
+      total: entry.pool.totalCount,
+      idle: entry.pool.idleCount,
+      waiting: entry.pool.waitingCount,
+    },
+    bytesForwarded: entry.forwarded ? { ...entry.forwarded } : null,
+  };
+}
 
-  try {
-    const privateKey = fs.readFileSync(instance.sshPrivateKeyPath, "utf-8");
-
-    const { pool, sshClient, localServer } = await new Promise<{
-      pool: pg.Pool;
-      sshClient: SSHClient;
-      localServer: net.Server;
-    }>((resolve, reject) => {
-      const ssh = new SSHClient();
-      resources.ssh = ssh;
-
-      ssh.on("ready", () => {
-        const server = net.createServer((socket) => {
-          ssh.forwardOut("127.0.0.1", 0, instance.dbHost, instance.dbPort, (err, stream) => {
-            if (err) { socket.destroy(); return; }
-            socket.pipe(stream).pipe(socket);
-          });
-        });
-
-        resources.server = server;
-        server.listen(0, "127.0.0.1", () => {
-          const addr = server.address() as net.AddressInfo;
-          const p = new pg.Pool({
-            host: "127.0.0.1",
-            port: addr.port,
-            database: instance.dbName,
-            user: instance.dbUser,
-            password: instance.dbPassword,
-            max: 1,
-            connectionTimeoutMillis: 10000,
-          });
-          resources.pool = p;
-          resolve({ pool: p, sshClient: ssh, localServer: server });
-        });
-      });
+/** Forgets the close history of a deleted instance. */
+export function forgetTunnel(id: string): void {
+  closeTunnel(id, "Instance deleted");
+  lastClosed.delete(id);
+}
 
-      ssh.on("error", (err) => reject(err));
+/** Connects and runs SELECT 1, then for the hooks source checks the table and
+ *  column mapping. When a hop presents a host key that isn't pinned, the
+ *  result carries it as `hostKey` for the user to confirm. */
+export async function testConnection(instance: N8nInstance): Promise<ConnectionTestResult> {
+  const resources: { pool?: pg.Pool; server?: net.Server; ssh: SSHClient[] } = { ssh: [] };
 
-      setTimeout(() => reject(new Error("SSH connection timeout")), 30000);
+  try {
+    let host = instance.dbHost;
+    let port = instance.dbPort;
+    if (instance.connectionType !== "direct") {
+      resources.ssh = await connectSshChain(instance);
+      resources.server = await startLocalForwarder(instance, resources.ssh[resources.ssh.length - 1]);
+      host = "127.0.0.1";
+      port = (resources.server.address() as net.AddressInfo).port;
+    }
 
-      ssh.connect({
-        host: instance.sshHost,
-        port: instance.sshPort,
-        username: instance.sshUser,
-        privateKey,
-        readyTimeout: 30000,
-        keepaliveInterval: 15000,
-        keepaliveCountMax: 3,
-      });
+    resources.pool = new pg.Pool({
+      host,
+      port,
+      database: instance.dbName ?? undefined,
+      user: instance.dbUser ?? undefined,
+      password: instance.dbPassword ?? undefined,
+      ssl: buildSslConfig(instance),
+      max: 1,
+      connectionTimeoutMillis: 10000,
     });
 
     // Test the actual DB query
-    const result = await pool.query("SELECT 1 AS ok");
+    const result = await resources.pool.query("SELECT 1 AS ok");
     if (result.rows[0]?.ok !== 1) {
       throw new Error("Unexpected query result");
     }
+    if (instance.sourceType === "hooks") {
+      await checkHooksTable(resources.pool, hooksTableFor(instance));
+    }
 
     return { success: true };
   } catch (err) {
     return {
       success: false,
       error: err instanceof Error ? err.message : String(err),
+      hostKey: err instanceof HostKeyVerificationError ? err.prompt : undefined,
     };
   } finally {
     try { resources.pool?.end().catch(() => {}); } catch {}
     try { resources.server?.close(); } catch {}
-    try { resources.ssh?.end(); } catch {}
+    closeSshClients(resources.ssh);
   }
 }
@@ -1,71 +1,628 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, uuid, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, boolean, json, jsonb, uuid, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Dashboard accounts. Invited users have no password until they accept the
+// invite; disabled users can't log in and their sessions stop working.
+//
+// Roles are ordered: viewers read executions and sync state, operators also
+// trigger syncs, backfills, retention runs, connection tests and tunnel
+// actions, and admins change instance settings and manage users. Admins see
+// every instance; everyone else only the ones granted to them (instanceGrants),
+// or all of them with allInstances.
+export const userRoles = ["viewer", "operator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return userRoles.indexOf(role) >= userRoles.indexOf(required);
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  // scrypt hash, see server/auth.ts
+  passwordHash: text("password_hash"),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
+  allInstances: boolean("all_instances").notNull().default(false),
+  disabledAt: timestamp("disabled_at", { withTimezone: true }),
+  // SHA-256 of the one-time invite token
+  inviteTokenHash: text("invite_token_hash"),
+  inviteExpiresAt: timestamp("invite_expires_at", { withTimezone: true }),
+  // Set for accounts created by single sign-on, see server/oidc.ts
+  oidcIssuer: text("oidc_issuer"),
+  oidcSubject: text("oidc_subject"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+}, (table) => [
+  uniqueIndex("idx_users_oidc_identity").on(table.oidcIssuer, table.oidcSubject),
+]);
+
+// Login sessions, in the layout connect-pg-simple expects. The passport user
+// id is at sess->'passport'->>'user'.
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("idx_user_sessions_expire").on(table.expire),
+]);
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+
+// Shape returned to the client, without the hashes
+export type UserPublic = Omit<User, "passwordHash" | "inviteTokenHash"> & {
+  invitePending: boolean;
+};
+
+export const MIN_PASSWORD_LENGTH = 10;
+const usernameSchema = z.string().trim().min(1).max(64).regex(/^[A-Za-z0-9._@-]+$/, "Letters, digits and . _ @ - only");
+const passwordSchema = z.string().min(MIN_PASSWORD_LENGTH, `At least ${MIN_PASSWORD_LENGTH} characters`).max(256);
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
+// First admin account, only accepted while no users exist
+export const setupSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
 });
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export const inviteUserSchema = z.object({
+  username: usernameSchema,
+  role: z.enum(userRoles),
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const updateUserSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  disabled: z.boolean().optional(),
+  allInstances: z.boolean().optional(),
+  // Replaces the user's instance grants
+  instanceIds: z.array(z.string()).max(1000).optional(),
+});
+
+// Shape returned by GET /api/users
+export type UserWithGrants = UserPublic & { instanceIds: string[] };
+
+// Shape returned by GET /api/auth/status
+export interface AuthStatus {
+  user: UserPublic | null;
+  // True while no account exists and the first admin can be created
+  setupRequired: boolean;
+  // Name of the single sign-on provider when it is configured
+  ssoProvider: string | null;
+}
+
+// Returned once by POST /api/users/invite and /api/users/:id/invite
+export interface UserInvite {
+  user: UserPublic;
+  token: string;
+  expiresAt: string;
+}
+
+// Personal API tokens, sent as `Authorization: Bearer`. A token acts as its
+// user with at most the role of its scope: read = viewer, sync = operator
+// (syncs, backfills, tests), admin = admin. Only the SHA-256 is stored.
+export const apiTokenScopes = ["read", "sync", "admin"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokenScopeRoles: Record<ApiTokenScope, UserRole> = {
+  read: "viewer",
+  sync: "operator",
+  admin: "admin",
+};
+
+export const apiTokens = pgTable("api_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  scope: text("scope").$type<ApiTokenScope>().notNull(),
+  tokenHash: text("token_hash").notNull(),
+  // The first characters of the token, so users can tell theirs apart
+  tokenPrefix: text("token_prefix").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+}, (table) => [
+  uniqueIndex("idx_api_tokens_hash").on(table.tokenHash),
+  index("idx_api_tokens_user").on(table.userId),
+]);
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+export const MAX_API_TOKEN_DAYS = 365;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scope: z.enum(apiTokenScopes),
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_DAYS),
+});
+
+// Shape returned by the /api/tokens endpoints
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  tokenPrefix: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+}
+
+// Returned once by POST /api/tokens
+export interface CreatedApiToken {
+  token: string;
+  info: ApiTokenInfo;
+}
+
+// How the dashboard reaches an instance's database
+export const connectionTypes = ["ssh", "direct"] as const;
+export type ConnectionType = typeof connectionTypes[number];
+
+// TLS for the pg connection: off, encrypted without verification, or verified against a CA
+export const dbSslModes = ["disable", "require", "verify-full"] as const;
+export type DbSslMode = typeof dbSslModes[number];
+
+// Where executions are read from: the hooks' n8n_execution_logs table,
+// n8n's own execution_entity / execution_data / workflow_entity tables,
+// n8n's public REST API (no database access needed), or pushed by the
+// hooks to POST /api/ingest/:instanceId (never polled)
+export const sourceTypes = ["hooks", "native", "api", "push"] as const;
+export type SourceType = typeof sourceTypes[number];
+
+// What the reconciliation pass does with cached executions that no longer
+// exist on the remote (pruned by n8n or deleted by hand)
+export const reconcileModes = ["off", "mark", "delete"] as const;
+export type ReconcileMode = typeof reconcileModes[number];
+
+// "metadata" keeps only the lightweight columns locally; execution_data and
+// workflow_data are fetched from the remote when a detail is opened
+export const storageModes = ["full", "metadata"] as const;
+export type StorageMode = typeof storageModes[number];
+
+// How the dashboard authenticates to an SSH host: a private key file (which
+// may be passphrase-protected), the agent at SSH_AUTH_SOCK, or a password
+export const sshAuthMethods = ["key", "agent", "password"] as const;
+export type SshAuthMethod = typeof sshAuthMethods[number];
+
+export const MAX_SSH_PRIVATE_KEY_LENGTH = 16_384;
+
+// OpenSSH-style SHA-256 fingerprint, as printed by `ssh-keygen -lf`
+export const hostKeyFingerprintPattern = /^SHA256:[A-Za-z0-9+/]{43}$/;
+
+// A bastion in front of the SSH host. Hops are connected in order, each one
+// through a forwarded stream on the previous, before the host itself.
+export const sshJumpHostSchema = z.object({
+  host: z.string().min(1, "Host is required"),
+  port: z.number().int().min(1).max(65535).default(22),
+  user: z.string().min(1, "User is required"),
+  authMethod: z.enum(sshAuthMethods).default("key"),
+  privateKeyPath: z.string().nullish(),
+  privateKey: z.string().max(MAX_SSH_PRIVATE_KEY_LENGTH).nullish(),
+  passphrase: z.string().nullish(),
+  password: z.string().nullish(),
+  // Pinned host key fingerprints; set through test-connection or a known_hosts import
+  hostKeys: z.array(z.string().regex(hostKeyFingerprintPattern)).optional(),
+}).superRefine((hop, ctx) => {
+  if (hop.authMethod === "key" && !hop.privateKeyPath && !hop.privateKey) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["privateKeyPath"], message: "Key path or key is required" });
+  }
+  if (hop.authMethod === "password" && !hop.password) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["password"], message: "Password is required" });
+  }
+});
+
+export type SshJumpHost = z.infer<typeof sshJumpHostSchema>;
+export const MAX_SSH_JUMP_HOSTS = 5;
+
+export const executionStatuses = ["success", "error", "running", "waiting", "canceled"] as const;
+export type ExecutionStatus = typeof executionStatuses[number];
+
+// Per-instance rule mapping a raw status (matched case-insensitively) onto
+// one the dashboard understands, e.g. "partial" → success
+export const statusMappingRuleSchema = z.object({
+  raw: z.string().trim().min(1).max(100),
+  status: z.enum(executionStatuses),
+});
+export type StatusMappingRule = z.infer<typeof statusMappingRuleSchema>;
+export const MAX_STATUS_MAPPINGS = 50;
+
+// Fields the hooks source reads. Each one maps to a column of the remote table
+// or view, or to an SQL expression over its columns; unmapped fields read the
+// column of the same name, as created by the hooks.
+export const hooksFields = [
+  "execution_id",
+  "workflow_id",
+  "workflow_name",
+  "status",
+  "finished",
+  "started_at",
+  "finished_at",
+  "duration_ms",
+  "mode",
+  "node_count",
+  "error_message",
+  "execution_data",
+  "workflow_data",
+  "created_at",
+] as const;
+export type HooksField = typeof hooksFields[number];
+// Fields a forked table may lack; mapping one to null reads NULL instead
+export const optionalHooksFields: readonly HooksField[] = [
+  "finished", "started_at", "finished_at", "duration_ms", "mode", "node_count",
+  "error_message", "execution_data", "workflow_data",
+];
+export type HooksColumnMap = Partial<Record<HooksField, string | null>>;
+
+export const DEFAULT_REMOTE_TABLE = "n8n_execution_logs";
+// A table or view, optionally schema-qualified
+export const remoteTablePattern = /^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*)?$/;
+
+/** Why a column mapping can't be spliced into a query, or null if it can.
+ *  Each mapping is used as one parenthesised term of a SELECT list, so it may
+ *  not end the statement, comment out the rest of it or close the parentheses
+ *  around it. Checked on save and again before every remote query. */
+export function columnMappingProblem(expression: string): string | null {
+  if (expression.includes(";")) return "Expressions cannot contain ';'";
+  if (expression.includes("--") || expression.includes("/*")) return "Expressions cannot contain comments";
+  let depth = 0;
+  for (const char of expression) {
+    if (char === "(") depth++;
+    if (char === ")" && --depth < 0) break;
+  }
+  return depth === 0 ? null : "Expressions must have balanced parentheses";
+}
+
+export const hooksColumnMapSchema = z.record(
+  z.enum(hooksFields),
+  z.string().trim().min(1).max(2000).nullable(),
+).superRefine((map, ctx) => {
+  for (const [field, expression] of Object.entries(map) as Array<[HooksField, string | null]>) {
+    if (expression === null && !optionalHooksFields.includes(field)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} must be mapped` });
+    }
+    const problem = expression === null ? null : columnMappingProblem(expression);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: problem });
+    }
+  }
+});
 
 // n8n Instances table — stored in local PostgreSQL
 export const n8nInstances = pgTable("n8n_instances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  sshHost: text("ssh_host").notNull(),
+  connectionType: text("connection_type").$type<ConnectionType>().notNull().default("ssh"),
+  sourceType: text("source_type").$type<SourceType>().notNull().default("hooks"),
+  // SSH fields are only used (and required) when connectionType is "ssh"
+  sshHost: text("ssh_host"),
   sshPort: integer("ssh_port").notNull().default(22),
-  sshUser: text("ssh_user").notNull(),
-  sshPrivateKeyPath: text("ssh_private_key_path").notNull(),
+  sshUser: text("ssh_user"),
+  sshAuthMethod: text("ssh_auth_method").$type<SshAuthMethod>().notNull().default("key"),
+  // Key auth uses the pasted key when set, otherwise the file at the path.
+  // Credentials are stored encrypted once SECRETS_MASTER_KEY is set, see server/secrets.ts.
+  sshPrivateKeyPath: text("ssh_private_key_path"),
+  sshPrivateKey: text("ssh_private_key"),
+  sshPassphrase: text("ssh_passphrase"),
+  sshPassword: text("ssh_password"),
+  sshJumpHosts: jsonb("ssh_jump_hosts").$type<SshJumpHost[]>().notNull().default([]),
+  // Fingerprints the SSH host's key must match; connections are refused while empty
+  sshHostKeys: jsonb("ssh_host_keys").$type<string[]>().notNull().default([]),
+  // Set on instances saved before host keys were pinned, so they keep syncing
+  // after an upgrade: their first sync pins whatever keys the hops present.
+  // New instances are created without it and confirm keys through Test connection.
+  sshTrustOnFirstUse: boolean("ssh_trust_on_first_use").notNull().default(true),
   dbHost: text("db_host").notNull().default("127.0.0.1"),
   dbPort: integer("db_port").notNull().default(5432),
-  dbName: text("db_name").notNull(),
-  dbUser: text("db_user").notNull(),
-  dbPassword: text("db_password").notNull(),
+  // Database fields are unused by the "api" source
+  dbName: text("db_name"),
+  dbUser: text("db_user"),
+  dbPassword: text("db_password"),
+  dbSslMode: text("db_ssl_mode").$type<DbSslMode>().notNull().default("disable"),
+  dbSslCaCert: text("db_ssl_ca_cert"),
   n8nBaseUrl: text("n8n_base_url").notNull().default("http://localhost:5678"),
+  n8nApiKey: text("n8n_api_key"),
+  // Push source: SHA-256 of the bearer token, and optional HMAC signing secret
+  ingestTokenHash: text("ingest_token_hash"),
+  ingestSigningSecret: text("ingest_signing_secret"),
+  // Polling schedule (ignored by push instances). Quiet hours are an optional
+  // "HH:MM" window, which may wrap midnight, during which scheduled polls are skipped.
+  pollIntervalSeconds: integer("poll_interval_seconds").notNull().default(60),
+  pollingEnabled: boolean("polling_enabled").notNull().default(true),
+  // Higher runs first when more instances are due than there are free sync slots
+  pollPriority: integer("poll_priority").notNull().default(0),
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  quietHoursTimezone: text("quiet_hours_timezone"),
+  reconcileMode: text("reconcile_mode").$type<ReconcileMode>().notNull().default("mark"),
+  storageMode: text("storage_mode").$type<StorageMode>().notNull().default("full"),
+  // Hooks source: where the executions are read from, see hooksFields. With
+  // storeExtraColumns, the remote columns no field is mapped to are kept in
+  // execution_logs.extra (in metadata mode only while the payload fields map
+  // to plain columns, which are left out of it).
+  remoteTable: text("remote_table").notNull().default(DEFAULT_REMOTE_TABLE),
+  remoteColumnMap: jsonb("remote_column_map").$type<HooksColumnMap>().notNull().default({}),
+  storeExtraColumns: boolean("store_extra_columns").notNull().default(false),
+  // Applied before the built-in status mapping; unknownStatus is what any
+  // other raw status becomes
+  statusMappings: jsonb("status_mappings").$type<StatusMappingRule[]>().notNull().default([]),
+  unknownStatus: text("unknown_status").$type<ExecutionStatus>().notNull().default("error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const insertInstanceSchema = createInsertSchema(n8nInstances).omit({
+export const MIN_POLL_INTERVAL_SECONDS = 10;
+const timeOfDayPattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const insertInstanceSchema = createInsertSchema(n8nInstances, {
+  connectionType: z.enum(connectionTypes).optional(),
+  dbSslMode: z.enum(dbSslModes).optional(),
+  sshAuthMethod: z.enum(sshAuthMethods).optional(),
+  sshJumpHosts: z.array(sshJumpHostSchema).max(MAX_SSH_JUMP_HOSTS).optional(),
+  sshHostKeys: z.array(z.string().regex(hostKeyFingerprintPattern)).optional(),
+  sshPrivateKey: z.string().max(MAX_SSH_PRIVATE_KEY_LENGTH).nullish(),
+  sourceType: z.enum(sourceTypes).optional(),
+  reconcileMode: z.enum(reconcileModes).optional(),
+  storageMode: z.enum(storageModes).optional(),
+  remoteTable: z.string().trim().regex(remoteTablePattern, "Expected a table or view name, e.g. public.n8n_execution_logs").optional(),
+  remoteColumnMap: hooksColumnMapSchema.optional(),
+  statusMappings: z.array(statusMappingRuleSchema).max(MAX_STATUS_MAPPINGS).optional(),
+  unknownStatus: z.enum(executionStatuses).optional(),
+  pollIntervalSeconds: z.number().int().min(MIN_POLL_INTERVAL_SECONDS).max(86_400).optional(),
+  quietHoursStart: z.string().regex(timeOfDayPattern, "Expected HH:MM").nullish(),
+  quietHoursEnd: z.string().regex(timeOfDayPattern, "Expected HH:MM").nullish(),
+}).omit({
   id: true,
+  ingestTokenHash: true,
+  sshTrustOnFirstUse: true,
   createdAt: true,
   updatedAt: true,
+}).superRefine((data, ctx) => {
+  const required = (fields: Array<keyof typeof data>, reason: string) => {
+    for (const field of fields) {
+      if (!data[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `${field} is required ${reason}`,
+        });
+      }
+    }
+  };
+
+  if (Boolean(data.quietHoursStart) !== Boolean(data.quietHoursEnd)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [data.quietHoursStart ? "quietHoursEnd" : "quietHoursStart"],
+      message: "Quiet hours need both a start and an end",
+    });
+  }
+  if (data.quietHoursTimezone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: data.quietHoursTimezone });
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["quietHoursTimezone"],
+        message: `Unknown time zone "${data.quietHoursTimezone}"`,
+      });
+    }
+  }
+
+  if (data.sourceType === "api") {
+    required(["n8nApiKey"], "for the REST API source");
+    return;
+  }
+  if (data.sourceType === "push") {
+    if (data.storageMode === "metadata") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["storageMode"],
+        message: "Push instances have no remote to fetch payloads from",
+      });
+    }
+    return;
+  }
+  required(["dbName", "dbUser", "dbPassword"], "for database sources");
+  if ((data.connectionType ?? "ssh") === "ssh") {
+    required(["sshHost", "sshUser"], "for SSH connections");
+    if ((data.sshAuthMethod ?? "key") === "key" && !data.sshPrivateKey) {
+      required(["sshPrivateKeyPath"], "for SSH key authentication unless a key is pasted");
+    } else if (data.sshAuthMethod === "password") {
+      required(["sshPassword"], "for SSH password authentication");
+    }
+  }
 });
 
 export type N8nInstance = typeof n8nInstances.$inferSelect;
 export type InsertInstance = z.infer<typeof insertInstanceSchema>;
+export type StatusRules = Pick<N8nInstance, "statusMappings" | "unknownStatus">;
+
+// Which instances a non-admin user can see, see userRoles
+export const instanceGrants = pgTable("instance_grants", {
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  instanceId: varchar("instance_id").notNull().references(() => n8nInstances.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_instance_grants_user_instance").on(table.userId, table.instanceId),
+  index("idx_instance_grants_instance").on(table.instanceId),
+]);
+
+export type InstanceGrant = typeof instanceGrants.$inferSelect;
+
+// Jump hosts as returned to the client: credentials are replaced by flags
+export type SshJumpHostPublic = Omit<SshJumpHost, "privateKeyPath" | "privateKey" | "passphrase" | "password"> & {
+  hasPrivateKeyPath: boolean;
+  hasPrivateKey: boolean;
+  hasPassphrase: boolean;
+  hasPassword: boolean;
+};
 
 // Public type that strips sensitive fields
-export type N8nInstancePublic = Omit<N8nInstance, "dbPassword" | "sshPrivateKeyPath">;
+export type N8nInstancePublic = Omit<
+  N8nInstance,
+  | "dbPassword"
+  | "sshPrivateKeyPath"
+  | "sshPrivateKey"
+  | "sshPassphrase"
+  | "sshPassword"
+  | "sshJumpHosts"
+  | "n8nApiKey"
+  | "ingestTokenHash"
+  | "ingestSigningSecret"
+> & {
+  sshJumpHosts: SshJumpHostPublic[];
+  hasSshPrivateKey: boolean;
+  hasSshPassphrase: boolean;
+};
+
+// A host key the dashboard was shown but could not verify. Test-connection
+// returns it so the user can compare the fingerprint and pin it.
+export interface HostKeyPrompt {
+  // Position in the chain: jump hosts first, the SSH host last
+  hop: number;
+  host: string;
+  port: number;
+  keyType: string;
+  fingerprint: string;
+  status: "unknown" | "mismatch";
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  error?: string;
+  hostKey?: HostKeyPrompt;
+}
+
+export const trustHostKeySchema = z.object({
+  hop: z.number().int().min(0),
+  fingerprint: z.string().regex(hostKeyFingerprintPattern, "Expected a SHA256: fingerprint"),
+});
+
+export const knownHostsImportSchema = z.object({
+  knownHosts: z.string().min(1).max(1_000_000),
+});
+
+// One named check of the connection diagnostics run by POST /api/instances/test
+export interface DiagnosticStep {
+  id: string;
+  label: string;
+  // "warning" passed but looks off (e.g. an empty table); steps after a failure are skipped
+  status: "ok" | "warning" | "failed" | "skipped";
+  durationMs: number | null;
+  detail?: string;
+  hint?: string;
+}
+
+export interface ConnectionDiagnostics {
+  success: boolean;
+  steps: DiagnosticStep[];
+  hostKey?: HostKeyPrompt;
+}
+
+// Form settings to test before saving. With instanceId, blank credentials and
+// pinned host keys are taken from the saved instance; hostKeys pins
+// fingerprints confirmed in the form for this run only.
+export const instanceTestRequestSchema = z.object({
+  instanceId: z.string().optional(),
+  settings: z.record(z.unknown()),
+  hostKeys: z.array(trustHostKeySchema).max(MAX_SSH_JUMP_HOSTS + 1).optional(),
+});
+
+export interface KnownHostsImportResult {
+  hops: Array<{ hop: number; host: string; port: number; keys: number }>;
+}
+
+// Shape returned by GET /api/tunnels: the pg pool a hooks/native instance
+// keeps between syncs and, over SSH, the tunnel and local forwarder under it
+export const tunnelStates = ["open", "opening", "closed"] as const;
+export type TunnelState = typeof tunnelStates[number];
+
+export interface TunnelInfo {
+  instanceId: string;
+  state: TunnelState;
+  openedAt: string | null;
+  lastUsedAt: string | null;
+  idleCloseAt: string | null;
+  localPort: number | null; // null for direct connections
+  sshHops: number;
+  pool: { total: number; idle: number; waiting: number } | null;
+  bytesForwarded: { toDb: number; fromDb: number } | null;
+  lastClosedAt: string | null;
+  lastCloseReason: string | null;
+}
 
 // n8n Execution Logs Types (matching remote DB schema)
-export type ExecutionStatus = 'success' | 'error' | 'running' | 'waiting' | 'canceled';
+// Raw statuses understood without any instance rules (lowercase, trimmed)
+export const builtInStatusMap: Record<string, ExecutionStatus> = {
+  success: "success",
+  error: "error",
+  crashed: "error",
+  failed: "error",
+  unknown: "error",
+  running: "running",
+  new: "running",
+  waiting: "waiting",
+  canceled: "canceled",
+  cancelled: "canceled",
+};
 
-export function normalizeStatus(raw: string): ExecutionStatus {
+/** Maps a raw status from the remote: the instance's rules first, then the
+ *  built-in statuses, and anything else to the instance's unknown status
+ *  (error unless configured otherwise). */
+export function normalizeStatus(raw: string, rules?: StatusRules): ExecutionStatus {
   const s = raw.toLowerCase().trim();
-  if (s === 'success') return 'success';
-  if (s === 'error' || s === 'crashed' || s === 'failed' || s === 'unknown') return 'error';
-  if (s === 'running' || s === 'new') return 'running';
-  if (s === 'waiting') return 'waiting';
-  if (s === 'canceled' || s === 'cancelled') return 'canceled';
-  return 'error'; // Unknown → surface as error
+  const rule = rules?.statusMappings.find((mapping) => mapping.raw.toLowerCase().trim() === s);
+  if (rule) return rule.status;
+  return builtInStatusMap[s] ?? rules?.unknownStatus ?? "error";
 }
 
+// Payload accepted by POST /api/ingest/:instanceId — same columns as n8n_execution_logs
+export const ingestExecutionSchema = z.object({
+  execution_id: z.union([z.string(), z.number()]).transform(String),
+  workflow_id: z.union([z.string(), z.number()]).transform(String),
+  workflow_name: z.string().min(1),
+  status: z.string().min(1),
+  finished: z.boolean().default(false),
+  started_at: z.string().datetime({ offset: true }).nullish(),
+  finished_at: z.string().datetime({ offset: true }).nullish(),
+  duration_ms: z.number().int().nonnegative().nullish(),
+  mode: z.string().nullish(),
+  node_count: z.number().int().nonnegative().nullish(),
+  error_message: z.string().nullish(),
+  execution_data: z.record(z.unknown()).nullish(),
+  workflow_data: z.record(z.unknown()).nullish(),
+  created_at: z.string().datetime({ offset: true }).optional(),
+});
+
+export const ingestPayloadSchema = z.union([
+  ingestExecutionSchema,
+  z.array(ingestExecutionSchema).min(1).max(1000),
+  z.object({ executions: z.array(ingestExecutionSchema).min(1).max(1000) }),
+]);
+
+export type IngestExecution = z.infer<typeof ingestExecutionSchema>;
+
 export interface ExecutionLog {
   id: string;
   execution_id: string;
   workflow_id: string;
   workflow_name: string;
   status: ExecutionStatus;
+  raw_status: string | null;
   finished: boolean;
   started_at: string | null;
   finished_at: string | null;
@@ -76,6 +633,13 @@ export interface ExecutionLog {
   last_node_executed: string | null;
   execution_data: Record<string, unknown> | null;
   workflow_data: Record<string, unknown> | null;
+  // Detail endpoint only: when retention stripped the payloads, and where the
+  // payloads came from ("remote" for metadata-only instances, possibly cached)
+  payload_pruned_at?: string | null;
+  payload_source?: "local" | "remote" | "remote-cache";
+  payload_error?: string | null;
+  // Detail endpoint only: unmapped columns of a hooks table, when stored
+  extra?: Record<string, unknown> | null;
   created_at: string;
 }
 
@@ -115,6 +679,9 @@ export const executionLogs = pgTable("execution_logs", {
   workflowId: text("workflow_id").notNull(),
   workflowName: text("workflow_name").notNull(),
   status: text("status").notNull(),
+  // As received, before normalizeStatus; null for rows synced before it was
+  // kept, which status rules can then only remap from their normalized status
+  rawStatus: text("raw_status"),
   finished: boolean("finished").notNull().default(false),
   startedAt: timestamp("started_at", { withTimezone: true }),
   finishedAt: timestamp("finished_at", { withTimezone: true }),
@@ -124,7 +691,14 @@ export const executionLogs = pgTable("execution_logs", {
   errorMessage: text("error_message"),
   executionData: jsonb("execution_data"),
   workflowData: jsonb("workflow_data"),
+  // Unmapped columns of a hooks table, for instances with storeExtraColumns
+  extra: jsonb("extra"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  // Set by reconciliation when the execution is gone from the remote; such
+  // rows are left out of lists and aggregates
+  deletedUpstreamAt: timestamp("deleted_upstream_at", { withTimezone: true }),
+  // Set when retention cleared execution_data / workflow_data
+  payloadPrunedAt: timestamp("payload_pruned_at", { withTimezone: true }),
 }, (table) => [
   uniqueIndex("uq_instance_execution").on(table.instanceId, table.executionId),
   index("idx_execution_logs_instance_id").on(table.instanceId),
@@ -136,11 +710,287 @@ export const executionLogs = pgTable("execution_logs", {
   index("idx_execution_logs_instance_status_created").on(table.instanceId, table.status, table.createdAt),
 ]);
 
+// Circuit breaker state of an instance's scheduled polls
+export const circuitStates = ["closed", "open", "half_open"] as const;
+export type CircuitState = typeof circuitStates[number];
+
 export const syncStatus = pgTable("sync_status", {
   instanceId: varchar("instance_id").primaryKey().references(() => n8nInstances.id, { onDelete: "cascade" }),
   lastSyncedAt: timestamp("last_synced_at", { withTimezone: true }),
   lastSyncSuccess: boolean("last_sync_success"),
   lastSyncError: text("last_sync_error"),
   lastSyncRecordCount: integer("last_sync_record_count"),
+  // Source-specific incremental position (e.g. REST API execution id high-water mark)
+  syncCursor: text("sync_cursor"),
+  // Keyset position of a sync still in progress, saved after every page and
+  // cleared on completion so a crashed sync resumes here. For the hooks table
+  // this is (created_at, execution_id) of the last row; for native tables it is
+  // the sync's lower time bound plus the last execution_entity id; for the REST
+  // API the last row's created_at plus an ApiResumePoint as JSON, while
+  // syncCursor keeps the cursor the interrupted sync started from.
+  // Kept as a string so created_at's microseconds survive the round trip.
+  highWaterMarkAt: timestamp("high_water_mark_at", { withTimezone: true, mode: "string" }),
+  highWaterMarkId: text("high_water_mark_id"),
+  // Once enough consecutive failures pile up the circuit opens and scheduled
+  // polls wait until nextRetryAt (exponential backoff). The first poll after
+  // that runs half-open: success closes the circuit, failure re-opens it for longer.
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  circuitState: text("circuit_state").$type<CircuitState>().notNull().default("closed"),
+  nextRetryAt: timestamp("next_retry_at", { withTimezone: true }),
+  // Outcome of the last reconciliation pass (see server/reconcile.ts)
+  lastReconciledAt: timestamp("last_reconciled_at", { withTimezone: true }),
+  lastReconcileCheckedCount: integer("last_reconcile_checked_count"),
+  lastReconcileMissingCount: integer("last_reconcile_missing_count"),
+  lastReconcileError: text("last_reconcile_error"),
+  // Outcome of the last retention run (see server/retention.ts)
+  lastRetentionRunAt: timestamp("last_retention_run_at", { withTimezone: true }),
+  lastRetentionPrunedCount: integer("last_retention_pruned_count"),
+  lastRetentionDeletedCount: integer("last_retention_deleted_count"),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
+
+// One row per poll of an instance, kept for the sync history panel
+export const syncRuns = pgTable("sync_runs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  instanceId: varchar("instance_id").notNull().references(() => n8nInstances.id, { onDelete: "cascade" }),
+  trigger: text("trigger").$type<SyncRunTrigger>().notNull(),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+  // null while the run is still in progress
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+  success: boolean("success"),
+  rowsFetched: integer("rows_fetched").notNull().default(0),
+  // Rows that were new or differed from the cached copy; unchanged ones are
+  // not rewritten
+  rowsUpserted: integer("rows_upserted").notNull().default(0),
+  // Approximate size of the execution payloads received from the remote
+  bytesTransferred: bigint("bytes_transferred", { mode: "number" }).notNull().default(0),
+  tunnelSetupMs: integer("tunnel_setup_ms").notNull().default(0),
+  queryMs: integer("query_ms").notNull().default(0),
+  error: text("error"),
+}, (table) => [
+  index("idx_sync_runs_instance_started").on(table.instanceId, table.startedAt),
+]);
+
+export type SyncRunTrigger = "scheduled" | "manual";
+export type SyncRun = typeof syncRuns.$inferSelect;
+
+// Shape returned by GET /api/instances/:id/sync-runs
+export interface SyncRunInfo {
+  id: string;
+  trigger: SyncRunTrigger;
+  startedAt: string;
+  finishedAt: string | null;
+  success: boolean | null;
+  rowsFetched: number;
+  rowsUpserted: number;
+  bytesTransferred: number;
+  tunnelSetupMs: number;
+  queryMs: number;
+  error: string | null;
+}
+
+// On-demand historical backfills (POST /api/instances/:id/backfill). The range
+// is processed in fixed windows; progress is persisted per window so a job
+// interrupted by a restart picks up where it left off.
+export const backfillJobStatuses = ["queued", "running", "completed", "failed", "canceled"] as const;
+export type BackfillJobStatus = typeof backfillJobStatuses[number];
+
+export const backfillJobs = pgTable("backfill_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  instanceId: varchar("instance_id").notNull().references(() => n8nInstances.id, { onDelete: "cascade" }),
+  rangeStart: timestamp("range_start", { withTimezone: true }).notNull(),
+  rangeEnd: timestamp("range_end", { withTimezone: true }).notNull(),
+  status: text("status").$type<BackfillJobStatus>().notNull().default("queued"),
+  chunksTotal: integer("chunks_total").notNull(),
+  chunksDone: integer("chunks_done").notNull().default(0),
+  rowsUpserted: integer("rows_upserted").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+}, (table) => [
+  index("idx_backfill_jobs_instance_created").on(table.instanceId, table.createdAt),
+  // At most one queued or running job per instance, even when two start at once
+  uniqueIndex("uq_backfill_jobs_active_instance").on(table.instanceId).where(sql`status IN ('queued', 'running')`),
+]);
+
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+
+export const backfillRequestSchema = z.object({
+  startDate: z.string().datetime({ offset: true }),
+  endDate: z.string().datetime({ offset: true }).optional(),
+}).refine((data) => !data.endDate || new Date(data.startDate) < new Date(data.endDate), {
+  message: "startDate must be before endDate",
+  path: ["startDate"],
+});
+
+// Shape returned by the backfill job endpoints
+export interface BackfillJobInfo {
+  id: string;
+  instanceId: string;
+  rangeStart: string;
+  rangeEnd: string;
+  status: BackfillJobStatus;
+  chunksTotal: number;
+  chunksDone: number;
+  rowsUpserted: number;
+  progress: number; // 0..1
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// Local retention rules. For each execution the most specific matching rule
+// applies (workflow + status, then workflow, then status, then the instance
+// default with neither set). After payloadDays the JSONB payloads are cleared;
+// after metadataDays the row is deleted. Null means keep forever.
+export const retentionRules = pgTable("retention_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  instanceId: varchar("instance_id").notNull().references(() => n8nInstances.id, { onDelete: "cascade" }),
+  workflowName: text("workflow_name"),
+  status: text("status").$type<ExecutionStatus>(),
+  payloadDays: integer("payload_days"),
+  metadataDays: integer("metadata_days"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("idx_retention_rules_instance").on(table.instanceId),
+]);
+
+export type RetentionRule = typeof retentionRules.$inferSelect;
+
+export const insertRetentionRuleSchema = createInsertSchema(retentionRules, {
+  status: z.enum(["success", "error", "running", "waiting", "canceled"]).nullish(),
+  payloadDays: z.number().int().min(1).nullish(),
+  metadataDays: z.number().int().min(1).nullish(),
+}).omit({
+  id: true,
+  instanceId: true,
+  createdAt: true,
+}).refine(
+  (rule) => rule.payloadDays == null || rule.metadataDays == null || rule.metadataDays >= rule.payloadDays,
+  { message: "Metadata must be kept at least as long as payloads", path: ["metadataDays"] },
+);
+
+// PUT /api/instances/:id/retention-rules replaces the whole set
+export const retentionRulesPayloadSchema = z.array(insertRetentionRuleSchema).max(100).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    const key = `${rule.workflowName ?? ""}\u0000${rule.status ?? ""}`;
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index],
+        message: "Duplicate rule for the same workflow and status",
+      });
+    }
+    seen.add(key);
+  });
+});
+
+export type InsertRetentionRule = z.infer<typeof insertRetentionRuleSchema>;
+
+// Shape returned by GET /api/instances/:id/storage
+export interface StorageUsage {
+  rowCount: number;
+  payloadRowCount: number;
+  payloadBytes: number; // on-disk (compressed) size of execution_data + workflow_data
+  oldestAt: string | null;
+  tableBytes: number; // whole execution_logs table incl. indexes, all instances
+  lastRetentionRunAt: string | null;
+  lastRetentionPrunedCount: number | null;
+  lastRetentionDeletedCount: number | null;
+}
+
+// Messages on the GET /api/events?instanceId= Server-Sent Events stream.
+// Execution id lists are capped; `truncated` means more changed than listed.
+export type LiveEvent =
+  | {
+      type: "executions";
+      instanceId: string;
+      inserted: string[];
+      updated: string[];
+      failed: string[];
+      truncated: boolean;
+    }
+  | { type: "sync-status"; instanceId: string }
+  // Too many executions changed to list, e.g. after new status rules
+  | { type: "refresh"; instanceId: string };
+
+// Who changed instance settings or ran operator actions against an instance.
+// Actor and instance names are copied in so the trail survives deleting either;
+// credentials never appear in `changes`, see server/audit.ts.
+export const auditActions = [
+  "instance.create",
+  "instance.update",
+  "instance.delete",
+  "instance.test",
+  "instance.test_connection",
+  "instance.sync",
+  "instance.trust_host_key",
+  "instance.import_known_hosts",
+  "instance.ingest_token",
+  "instance.retention_rules",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+// One changed setting; redacted credentials read "[redacted]" on both sides
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const auditEvents = pgTable("audit_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  actorUserId: varchar("actor_user_id").references(() => users.id, { onDelete: "set null" }),
+  actorUsername: text("actor_username").notNull(),
+  // Set when the actor authenticated with a personal API token
+  apiTokenId: uuid("api_token_id"),
+  action: text("action").$type<AuditAction>().notNull(),
+  instanceId: varchar("instance_id"),
+  instanceName: text("instance_name"),
+  success: boolean("success").notNull(),
+  // Error message, or a short note such as a test's outcome
+  detail: text("detail"),
+  changes: jsonb("changes").$type<AuditChange[]>().notNull().default([]),
+}, (table) => [
+  index("idx_audit_events_created").on(table.createdAt),
+  index("idx_audit_events_instance_created").on(table.instanceId, table.createdAt),
+  index("idx_audit_events_actor_created").on(table.actorUserId, table.createdAt),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export const MAX_AUDIT_EVENTS_PAGE = 500;
+
+// Filters of GET /api/audit-events and its export
+export const auditEventsQuerySchema = z.object({
+  instanceId: z.string().optional(),
+  actorUserId: z.string().optional(),
+  action: z.enum(auditActions).optional(),
+  startDate: z.string().datetime({ offset: true }).optional(),
+  endDate: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_EVENTS_PAGE).default(100),
+  // Id of the last event of the previous page; continues with the ones
+  // recorded before it, in (createdAt, id) order
+  before: z.string().uuid().optional(),
+});
+
+export type AuditEventsQuery = z.infer<typeof auditEventsQuerySchema>;
+
+// Shape returned by GET /api/audit-events
+export interface AuditEventInfo {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorUsername: string;
+  apiTokenId: string | null;
+  action: AuditAction;
+  instanceId: string | null;
+  instanceName: string | null;
+  success: boolean;
+  detail: string | null;
+  changes: AuditChange[];
+}